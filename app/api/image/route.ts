@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ProcessingError } from "@/lib/imageProcessor";
+import { allowedWidths, imageMaxAge, negotiateFormat, readSourceImage, SourceNotFoundError } from "@/lib/imageServer";
+import { validateProcessOptions } from "@/lib/optionsSchema";
+import { resolvePresetOptions } from "@/lib/presets";
+import { cacheKeyFor, processImageCached } from "@/lib/resultCache";
+import { ValidationError } from "@/lib/validation";
+
+export const maxDuration = 60; // 60 seconds max execution time
+export const runtime = "nodejs"; // Use Node.js runtime
+
+// GET /api/image?src=photos/a.jpg&w=640&q=75&fmt=auto&preset=web-optimized
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const src = params.get("src") ?? "";
+    const fmt = params.get("fmt") ?? "auto";
+
+    const widths = allowedWidths();
+    for (const key of ["w", "h"]) {
+      const value = params.get(key);
+      if (value !== null && !widths.includes(Number(value))) {
+        const errors = [{ field: key, reason: "is not an allowed size", allowed: widths.join(", ") }];
+        return NextResponse.json({ message: "Invalid options", errors }, { status: 400 });
+      }
+    }
+
+    const parsedOptions = validateProcessOptions({
+      width: params.get("w") ?? undefined,
+      height: params.get("h") ?? undefined,
+      quality: params.get("q") ?? undefined,
+      format: fmt === "auto" ? undefined : fmt,
+      presetId: params.get("preset") ?? undefined,
+    });
+    const resolved = await resolvePresetOptions(parsedOptions.presetId, parsedOptions);
+    // Presets built for uploads carry size targets and responsive sets; an origin serves one image fast.
+    const mergedOptions = { ...resolved, responsive: undefined, targetSizeKB: undefined, targetQualityScore: undefined };
+
+    const buffer = await readSourceImage(src);
+    const format = fmt === "auto" ? await negotiateFormat(request.headers.get("accept") ?? "", buffer) : mergedOptions.format;
+    const options = { ...mergedOptions, format };
+
+    const key = cacheKeyFor(buffer, options);
+    const headers: Record<string, string> = {
+      ETag: `"${key}"`,
+      "Cache-Control": `public, max-age=${imageMaxAge()}`,
+    };
+    if (fmt === "auto") {
+      headers.Vary = "Accept";
+    }
+    if (request.headers.get("if-none-match") === headers.ETag) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    const { result, hit } = await processImageCached(buffer, options, {}, key);
+    const extension = result.info.format || "jpg";
+    headers["Content-Type"] = extension === "svg" ? "image/svg+xml" : `image/${extension}`;
+    headers["X-Cache"] = hit ? "HIT" : "MISS";
+
+    return new NextResponse(result.buffer as unknown as BodyInit, { headers });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ message: error.message, errors: error.errors }, { status: 400 });
+    }
+    if (error instanceof SourceNotFoundError) {
+      return NextResponse.json({ message: error.message }, { status: 404 });
+    }
+    if (error instanceof ProcessingError) {
+      return NextResponse.json({ message: error.message }, { status: 400 });
+    }
+    console.error("Image route error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Failed to process image";
+    return NextResponse.json(
+      {
+        message: "Failed to process image",
+        error: process.env.NODE_ENV === "development" ? errorMessage : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
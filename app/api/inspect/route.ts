@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { inspectImage } from "@/lib/inspect";
+
+export const maxDuration = 30; // 30 seconds max execution time
+export const runtime = "nodejs"; // Use Node.js runtime
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+
+    if (!file) {
+      return NextResponse.json({ message: "No file uploaded" }, { status: 400 });
+    }
+
+    // Validate file size (25MB limit)
+    const maxSize = 25 * 1024 * 1024; // 25MB
+    if (file.size > maxSize) {
+      return NextResponse.json(
+        { message: `File size exceeds limit of ${maxSize / 1024 / 1024}MB` },
+        { status: 400 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const inspection = await inspectImage(buffer);
+
+    return NextResponse.json(inspection);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Failed to inspect image";
+    if (/unsupported image format/i.test(errorMessage)) {
+      return NextResponse.json({ message: "Unsupported image format" }, { status: 400 });
+    }
+    console.error("Inspection error:", error);
+    return NextResponse.json(
+      {
+        message: "Failed to inspect image",
+        error: process.env.NODE_ENV === "development" ? errorMessage : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
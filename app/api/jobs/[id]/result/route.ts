@@ -0,0 +1,39 @@
+import { createReadStream, promises as fs } from "fs";
+import { Readable } from "stream";
+import { NextRequest, NextResponse } from "next/server";
+import { getJob, getJobResult, JobError } from "@/lib/jobs";
+import { losslessHeader } from "@/lib/report";
+
+export const runtime = "nodejs"; // Use Node.js runtime
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const result = getJobResult(id);
+    const { size } = await fs.stat(result.path);
+
+    const headers: Record<string, string> = {
+      "Content-Type": result.contentType,
+      "Content-Length": String(size),
+      "Content-Disposition": `attachment; filename=${result.fileName}`,
+    };
+    const { qualityScore, candidates, lossless } = getJob(id)?.result ?? {};
+    if (qualityScore !== undefined) {
+      headers["X-Quality-Score"] = qualityScore.toFixed(4);
+    }
+    if (candidates) {
+      headers["X-Format-Candidates"] = candidates.map(({ format, size }) => `${format}=${size}`).join(", ");
+    }
+    if (lossless) {
+      headers["X-Lossless"] = losslessHeader(lossless);
+    }
+
+    return new NextResponse(Readable.toWeb(createReadStream(result.path)) as unknown as BodyInit, { headers });
+  } catch (error) {
+    if (error instanceof JobError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+    console.error("Job result error:", error);
+    return NextResponse.json({ message: "Failed to read job result" }, { status: 500 });
+  }
+}
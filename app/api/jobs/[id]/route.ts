@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cancelJob, getJob, JobError } from "@/lib/jobs";
+
+export const runtime = "nodejs"; // Use Node.js runtime
+
+type Context = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: Context) {
+  const job = getJob((await params).id);
+  if (!job) {
+    return NextResponse.json({ message: "Job not found or expired" }, { status: 404 });
+  }
+  return NextResponse.json(job);
+}
+
+export async function DELETE(_request: NextRequest, { params }: Context) {
+  try {
+    return NextResponse.json(await cancelJob((await params).id));
+  } catch (error) {
+    if (error instanceof JobError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+    console.error("Job cancellation error:", error);
+    return NextResponse.json({ message: "Failed to cancel job" }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import path from "path";
+import { NextRequest, NextResponse } from "next/server";
+import { enqueueJob, JobError } from "@/lib/jobs";
+import { validateProcessOptions } from "@/lib/optionsSchema";
+import { resolvePresetOptions } from "@/lib/presets";
+import { ValidationError } from "@/lib/validation";
+import { attachWatermarkUpload } from "@/lib/watermark";
+
+export const runtime = "nodejs"; // Use Node.js runtime
+
+// Accepts the same form fields as /api/process but answers immediately with a job to poll.
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+    const optionsStr = formData.get("options") as string | null;
+
+    if (!file) {
+      return NextResponse.json({ message: "No file uploaded" }, { status: 400 });
+    }
+
+    // Validate file size (25MB limit)
+    const maxSize = 25 * 1024 * 1024; // 25MB
+    if (file.size > maxSize) {
+      return NextResponse.json(
+        { message: `File size exceeds limit of ${maxSize / 1024 / 1024}MB` },
+        { status: 400 }
+      );
+    }
+
+    let rawOptions: unknown = {};
+    try {
+      rawOptions = optionsStr ? JSON.parse(optionsStr) : {};
+    } catch (parseError) {
+      console.error("Failed to parse options", parseError);
+      return NextResponse.json({ message: "Invalid options format" }, { status: 400 });
+    }
+    const watermarkFile = formData.get("watermark");
+    if (watermarkFile instanceof File) {
+      rawOptions = await attachWatermarkUpload(rawOptions, watermarkFile);
+    }
+    const parsedOptions = validateProcessOptions(rawOptions);
+    const mergedOptions = await resolvePresetOptions(parsedOptions.presetId, parsedOptions);
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const baseName = path.parse(file.name).name.replace(/[^\w.-]+/g, "-") || "image";
+    const job = await enqueueJob(buffer, mergedOptions, baseName);
+
+    return NextResponse.json(job, { status: 202, headers: { Location: `/api/jobs/${job.id}` } });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ message: error.message, errors: error.errors }, { status: 400 });
+    }
+    if (error instanceof JobError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+    console.error("Job submission error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Failed to queue job";
+    return NextResponse.json(
+      {
+        message: "Failed to queue job",
+        error: process.env.NODE_ENV === "development" ? errorMessage : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PresetError, exportPresetBundle, importPresetBundle } from "@/lib/presets";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const bundle = await exportPresetBundle();
+  return NextResponse.json(bundle, {
+    headers: {
+      "Content-Disposition": `attachment; filename=presets-${bundle.exportedAt.slice(0, 10)}.json`,
+    },
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const overwrite = request.nextUrl.searchParams.get("overwrite") === "true";
+  try {
+    let bundle: unknown;
+    try {
+      bundle = await request.json();
+    } catch {
+      throw new PresetError("Invalid JSON body", 400);
+    }
+    return NextResponse.json(await importPresetBundle(bundle, overwrite));
+  } catch (error) {
+    if (error instanceof PresetError) {
+      return NextResponse.json({ message: error.message, errors: error.details }, { status: error.status });
+    }
+    console.error("Preset import error:", error);
+    return NextResponse.json({ message: "Failed to import presets" }, { status: 500 });
+  }
+}
@@ -1,6 +1,60 @@
-import { NextResponse } from "next/server";
-import { listPresets } from "@/lib/presets";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  PresetError,
+  createCustomPreset,
+  deleteCustomPreset,
+  listPresets,
+  updateCustomPreset,
+} from "@/lib/presets";
+
+export const runtime = "nodejs"; // The preset store lives on the local filesystem
+
+const presetErrorResponse = (error: unknown) => {
+  if (error instanceof PresetError) {
+    return NextResponse.json({ message: error.message, errors: error.details }, { status: error.status });
+  }
+  console.error("Preset store error:", error);
+  return NextResponse.json({ message: "Failed to update presets" }, { status: 500 });
+};
+
+const readJson = async (request: NextRequest): Promise<unknown> => {
+  try {
+    return await request.json();
+  } catch {
+    throw new PresetError("Invalid JSON body", 400);
+  }
+};
 
 export async function GET() {
-  return NextResponse.json(listPresets());
+  return NextResponse.json(await listPresets());
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const preset = await createCustomPreset(await readJson(request));
+    return NextResponse.json(preset, { status: 201 });
+  } catch (error) {
+    return presetErrorResponse(error);
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    return NextResponse.json(await updateCustomPreset(await readJson(request)));
+  } catch (error) {
+    return presetErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ message: "Missing preset id" }, { status: 400 });
+  }
+  try {
+    await deleteCustomPreset(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return presetErrorResponse(error);
+  }
 }
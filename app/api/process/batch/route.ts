@@ -0,0 +1,112 @@
+import { Readable } from "stream";
+import { ZipArchive } from "archiver";
+import { NextRequest, NextResponse } from "next/server";
+import { v4 as uuid } from "uuid";
+import { BatchItem, processBatch, sanitizeRelativePath } from "@/lib/batch";
+import { validateProcessOptions } from "@/lib/optionsSchema";
+import { ProcessOptions } from "@/lib/types";
+import { FieldError, ValidationError } from "@/lib/validation";
+import { attachWatermarkUpload } from "@/lib/watermark";
+
+export const maxDuration = 300; // Batches run many renders back to back
+export const runtime = "nodejs";
+
+const MAX_FILES = 100;
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const files = formData.getAll("files").filter((entry): entry is File => typeof entry !== "string");
+    const optionsStr = formData.get("options") as string | null;
+    const overridesStr = formData.get("overrides") as string | null;
+
+    if (files.length === 0) {
+      return NextResponse.json({ message: "No files uploaded" }, { status: 400 });
+    }
+    if (files.length > MAX_FILES) {
+      return NextResponse.json({ message: `Batch exceeds limit of ${MAX_FILES} files` }, { status: 400 });
+    }
+
+    let rawOptions: unknown = {};
+    let rawOverrides: Record<string, unknown> = {};
+    try {
+      rawOptions = optionsStr ? JSON.parse(optionsStr) : {};
+      rawOverrides = overridesStr ? JSON.parse(overridesStr) : {};
+    } catch (parseError) {
+      console.error("Failed to parse batch options", parseError);
+      return NextResponse.json({ message: "Invalid options format" }, { status: 400 });
+    }
+
+    // A single uploaded logo is shared by every file in the batch.
+    const watermarkFile = formData.get("watermark");
+    if (watermarkFile instanceof File) {
+      rawOptions = await attachWatermarkUpload(rawOptions, watermarkFile);
+    }
+
+    // Validate everything up front so a bad field is a 400 rather than a per-file failure.
+    const errors: FieldError[] = [];
+    const collect = <T>(validator: () => T): T | undefined => {
+      try {
+        return validator();
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        errors.push(...error.errors);
+        return undefined;
+      }
+    };
+    const sharedOptions = collect(() => validateProcessOptions(rawOptions)) ?? {};
+    const overrides: Record<string, ProcessOptions> = {};
+    for (const [name, value] of Object.entries(rawOverrides ?? {})) {
+      const validated = collect(() => validateProcessOptions(value, `overrides[${JSON.stringify(name)}]`));
+      if (validated) overrides[sanitizeRelativePath(name)] = validated;
+    }
+    if (errors.length > 0) {
+      return NextResponse.json({ message: "Invalid options", errors }, { status: 400 });
+    }
+
+    // Same per-file limit as the single-file route; oversized files are reported in the manifest.
+    const maxSize = 25 * 1024 * 1024; // 25MB
+    const items: BatchItem[] = files.map((file) => ({
+      name: file.name,
+      size: file.size,
+      options: overrides[sanitizeRelativePath(file.name)],
+      read: async () => {
+        if (file.size > maxSize) {
+          throw new Error(`File size exceeds limit of ${maxSize / 1024 / 1024}MB`);
+        }
+        return Buffer.from(await file.arrayBuffer());
+      },
+    }));
+
+    const archive = new ZipArchive({ zlib: { level: 9 } });
+    const run = async () => {
+      const manifest = await processBatch(items, sharedOptions, (name, result) => {
+        // Encoded images are already compressed; storing them avoids wasted deflate work.
+        archive.append(result.buffer, { name, store: true });
+      });
+      archive.append(JSON.stringify(manifest, null, 2), { name: "manifest.json" });
+      await archive.finalize();
+    };
+    run().catch((error) => {
+      console.error("Batch processing error:", error);
+      archive.destroy(error instanceof Error ? error : undefined);
+    });
+
+    return new NextResponse(Readable.toWeb(archive) as unknown as BodyInit, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename=batch-${uuid()}.zip`,
+      },
+    });
+  } catch (error) {
+    console.error("Batch processing error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Failed to process batch";
+    return NextResponse.json(
+      {
+        message: "Failed to process batch",
+        error: process.env.NODE_ENV === "development" ? errorMessage : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,23 @@
+import path from "path";
+import { Readable } from "stream";
 import { NextRequest, NextResponse } from "next/server";
 import { v4 as uuid } from "uuid";
-import { processImage } from "@/lib/imageProcessor";
+import { ProcessingError } from "@/lib/imageProcessor";
+import { validateProcessOptions } from "@/lib/optionsSchema";
 import { resolvePresetOptions } from "@/lib/presets";
-import { ProcessOptions } from "@/lib/types";
+import { buildProcessReport, losslessHeader } from "@/lib/report";
+import { createResponsiveArchive, processResponsiveSet } from "@/lib/responsive";
+import { CACHE_CONTROL_IMMUTABLE, cacheKeyFor, processImageCached } from "@/lib/resultCache";
+import { ValidationError } from "@/lib/validation";
+import { attachWatermarkUpload } from "@/lib/watermark";
 
 export const maxDuration = 60; // 60 seconds max execution time
 export const runtime = "nodejs"; // Use Node.js runtime
 
 export async function POST(request: NextRequest) {
+  const startedAt = performance.now();
+  // ?report=1 answers with JSON: the report plus the image as base64.
+  const wantsReport = request.nextUrl.searchParams.get("report") === "1";
   try {
     const formData = await request.formData();
     const file = formData.get("file") as File | null;
@@ -26,29 +36,90 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    let parsedOptions: ProcessOptions = {};
+    let rawOptions: unknown = {};
     try {
-      parsedOptions = optionsStr ? JSON.parse(optionsStr) : {};
+      rawOptions = optionsStr ? JSON.parse(optionsStr) : {};
     } catch (parseError) {
       console.error("Failed to parse options", parseError);
       return NextResponse.json({ message: "Invalid options format" }, { status: 400 });
     }
+    const watermarkFile = formData.get("watermark");
+    if (watermarkFile instanceof File) {
+      rawOptions = await attachWatermarkUpload(rawOptions, watermarkFile);
+    }
+    const parsedOptions = validateProcessOptions(rawOptions);
 
-    const mergedOptions = resolvePresetOptions(parsedOptions.presetId, parsedOptions);
+    const mergedOptions = await resolvePresetOptions(parsedOptions.presetId, parsedOptions);
 
     const arrayBuffer = await file.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
 
-    const result = await processImage(buffer, mergedOptions);
+    if (mergedOptions.responsive) {
+      if (wantsReport) {
+        return NextResponse.json({ message: "Reports are only available for single-image output" }, { status: 400 });
+      }
+      const baseName = path.parse(file.name).name.replace(/[^\w.-]+/g, "-") || "image";
+      const set = await processResponsiveSet(buffer, { ...mergedOptions, responsive: mergedOptions.responsive }, baseName);
+
+      const archive = createResponsiveArchive(set);
+
+      return new NextResponse(Readable.toWeb(archive) as unknown as BodyInit, {
+        headers: {
+          "Content-Type": "application/zip",
+          "Content-Disposition": `attachment; filename=${baseName}-responsive-${uuid()}.zip`,
+        },
+      });
+    }
+
+    // The key is content-addressed, so a matching ETag means the client already has this exact output.
+    const key = cacheKeyFor(buffer, mergedOptions);
+    const etag = `"${key}"`;
+    if (!wantsReport && request.headers.get("if-none-match") === etag) {
+      return new NextResponse(null, { status: 304, headers: { ETag: etag, "Cache-Control": CACHE_CONTROL_IMMUTABLE } });
+    }
+
+    const { result, hit } = await processImageCached(buffer, mergedOptions, {}, key);
     const extension = result.info.format || "jpg";
+    const contentType = extension === "svg" ? "image/svg+xml" : `image/${extension}`;
+    const fileName = `processed-${key.slice(0, 16)}.${extension}`;
 
-    return new NextResponse(result.buffer as unknown as BodyInit, {
-      headers: {
-        "Content-Type": `image/${extension}`,
-        "Content-Disposition": `attachment; filename=processed-${uuid()}.${extension}`,
-      },
-    });
+    if (wantsReport) {
+      const report = buildProcessReport(mergedOptions, buffer.length, result, {
+        totalMs: performance.now() - startedAt,
+        cache: hit ? "HIT" : "MISS",
+      });
+      return NextResponse.json({
+        report,
+        image: { contentType, fileName, data: result.buffer.toString("base64") },
+      });
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename=${fileName}`,
+      ETag: etag,
+      "Cache-Control": CACHE_CONTROL_IMMUTABLE,
+      "X-Cache": hit ? "HIT" : "MISS",
+    };
+    if (result.info.qualityScore !== undefined) {
+      headers["X-Quality-Score"] = result.info.qualityScore.toFixed(4);
+    }
+    if (result.info.candidates) {
+      // "auto" output: the winner is the Content-Type; list every candidate's size for comparison.
+      headers["X-Format-Candidates"] = result.info.candidates.map(({ format, size }) => `${format}=${size}`).join(", ");
+    }
+    if (result.info.lossless) {
+      headers["X-Lossless"] = losslessHeader(result.info.lossless);
+    }
+
+    return new NextResponse(result.buffer as unknown as BodyInit, { headers });
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ message: error.message, errors: error.errors }, { status: 400 });
+    }
+    if (error instanceof ProcessingError) {
+      return NextResponse.json({ message: error.message }, { status: 400 });
+    }
     console.error("Processing error:", error);
     const errorMessage = error instanceof Error ? error.message : "Failed to process image";
     return NextResponse.json(
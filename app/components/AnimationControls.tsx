@@ -0,0 +1,82 @@
+"use client";
+
+import { animationSchema } from "@/lib/optionsSchema";
+import type { AnimationOptions } from "@/lib/types";
+
+type Props = {
+  value?: AnimationOptions;
+  frameCount: number;
+  onChange: (value: AnimationOptions | undefined) => void;
+};
+
+const limits = animationSchema.fields;
+
+const inputClass =
+  "dark:bg-slate-800 bg-white dark:border-slate-700 border-slate-300 rounded-lg px-3 py-2 text-xs sm:text-sm dark:text-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const toNumber = (raw: string) => (raw === "" ? undefined : Number(raw));
+
+export default function AnimationControls({ value, frameCount, onChange }: Props) {
+  const update = (patch: Partial<AnimationOptions>) => {
+    const next = Object.fromEntries(
+      Object.entries({ ...value, ...patch }).filter(([, entry]) => entry !== undefined)
+    ) as AnimationOptions;
+    onChange(Object.keys(next).length ? next : undefined);
+  };
+
+  const stillFrame = value?.frame;
+
+  const numberField = (label: string, key: Exclude<keyof AnimationOptions, "frame">, placeholder: string) => (
+    <label className="flex flex-col text-xs dark:text-slate-400 text-slate-600">
+      {label}
+      <input
+        type="number"
+        min={limits[key].min}
+        max={limits[key].max}
+        className={inputClass}
+        value={value?.[key] ?? ""}
+        placeholder={placeholder}
+        disabled={stillFrame !== undefined}
+        onChange={(e) => update({ [key]: toNumber(e.target.value) })}
+      />
+    </label>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-col space-y-1">
+        <label className="text-xs sm:text-sm dark:text-slate-300 text-slate-700">Animation ({frameCount} frames)</label>
+        <select
+          className={inputClass}
+          value={stillFrame === undefined ? "animation" : "frame"}
+          onChange={(e) => update({ frame: e.target.value === "frame" ? 0 : undefined })}
+        >
+          <option value="animation">Keep animation</option>
+          <option value="frame">Export a single frame</option>
+        </select>
+      </div>
+
+      {stillFrame !== undefined ? (
+        <label className="flex flex-col text-xs dark:text-slate-400 text-slate-600">
+          Frame: {stillFrame + 1} of {frameCount}
+          <input
+            type="range"
+            min={0}
+            max={Math.max(0, frameCount - 1)}
+            className="accent-indigo-500 mt-2"
+            value={stillFrame}
+            onChange={(e) => update({ frame: Number(e.target.value) })}
+          />
+        </label>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+          {numberField("Keep every nth frame", "keepEvery", "1")}
+          {numberField("Max FPS", "maxFps", "Any")}
+          {numberField("Max frames", "maxFrames", "Any")}
+          {numberField("Loop count (0 = forever)", "loop", "Source")}
+          {numberField("Frame delay (ms)", "delay", "Source")}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { COLOUR_SPACES } from "@/lib/optionsSchema";
+import type { ColourOptions, ColourSpace } from "@/lib/types";
+
+type Props = {
+  value?: ColourOptions;
+  format: string; // output format, or the source format when converting in place
+  highBitDepth: boolean; // the source has 16 bits per channel
+  onChange: (value: ColourOptions | undefined) => void;
+};
+
+const SPACE_LABELS: Record<ColourSpace, string> = {
+  srgb: "Convert to sRGB",
+  p3: "Convert to Display P3",
+  keep: "Keep source profile",
+  grayscale: "Grayscale",
+};
+
+const inputClass =
+  "dark:bg-slate-800 bg-white dark:border-slate-700 border-slate-300 rounded-lg px-3 py-2 text-xs sm:text-sm dark:text-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+export default function ColourControls({ value, format, highBitDepth, onChange }: Props) {
+  const space = value ? (value.space ?? "srgb") : "";
+  const update = (patch: Partial<ColourOptions>) => {
+    const next = Object.fromEntries(
+      Object.entries({ ...value, ...patch }).filter(([, entry]) => entry !== undefined)
+    ) as ColourOptions;
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-col space-y-1">
+        <label className="text-xs sm:text-sm dark:text-slate-300 text-slate-700">Colour</label>
+        <select
+          className={inputClass}
+          value={space}
+          onChange={(e) =>
+            onChange(e.target.value ? { ...value, space: e.target.value as ColourSpace } : undefined)
+          }
+        >
+          <option value="">Automatic (sRGB, no profile)</option>
+          {COLOUR_SPACES.map((option) => (
+            <option key={option} value={option}>
+              {SPACE_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {value && format === "gif" && (space === "p3" || space === "keep") && (
+        <p className="text-xs dark:text-amber-300 text-amber-600">
+          GIF cannot carry a colour profile; it will be converted to sRGB.
+        </p>
+      )}
+
+      {value && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+          {(space === "srgb" || space === "grayscale") && (
+            <label className="flex items-center gap-2 text-xs dark:text-slate-400 text-slate-600">
+              <input
+                type="checkbox"
+                checked={value.embedProfile !== false}
+                onChange={(e) => update({ embedProfile: e.target.checked ? undefined : false })}
+                className="accent-indigo-500 h-4 w-4"
+              />
+              Embed ICC profile
+            </label>
+          )}
+          {highBitDepth && (
+            <label
+              className="flex items-center gap-2 text-xs dark:text-slate-400 text-slate-600"
+              title="TIFF, and PNG when lossless or not quantized"
+            >
+              <input
+                type="checkbox"
+                checked={Boolean(value.keepBitDepth)}
+                onChange={(e) => update({ keepBitDepth: e.target.checked || undefined })}
+                className="accent-indigo-500 h-4 w-4"
+              />
+              Keep 16-bit depth
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
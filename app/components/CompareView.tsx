@@ -0,0 +1,318 @@
+"use client";
+
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import { computePsnr, computeSsim, toLuma } from "@/lib/metrics";
+
+export type CompareMetrics = { psnr: number; ssim: number };
+
+type Props = {
+  originalUrl: string;
+  processedUrl: string;
+  onMetrics?: (metrics: CompareMetrics | null) => void;
+};
+
+type Comparison = {
+  width: number; // natural size of the processed image
+  height: number;
+  heatmapUrl: string;
+  metrics: CompareMetrics | null; // null when the framing differs and pixels do not line up
+};
+
+type View = { zoom: number; x: number; y: number }; // zoom is relative to "fit"; x/y are pixel offsets
+
+type Drag = { mode: "pan" | "slider"; startX: number; startY: number; origin: View };
+
+const MAX_COMPARE_PIXELS = 4_000_000; // larger outputs are compared on a downscaled grid
+const MAX_PIXEL_ZOOM = 32; // screen pixels per image pixel
+const PIXEL_ZOOM_STEPS = [1, 2, 4, 8];
+const WHEEL_ZOOM_FACTOR = 1.25;
+const HEATMAP_GAIN = 4; // typical artifacts are a few levels off; amplify them so they show
+const ASPECT_TOLERANCE = 0.01;
+
+const FIT_VIEW: View = { zoom: 1, x: 0, y: 0 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = reject;
+    image.src = src;
+  });
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Flattened on white, like the server-side scorer, so transparent areas compare equal.
+const rasterize = (image: HTMLImageElement, width: number, height: number) => {
+  const context = createCanvas(width, height).getContext("2d", { willReadFrequently: true }) as CanvasRenderingContext2D;
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height).data;
+};
+
+// Black for identical pixels, through red to yellow for the largest differences.
+const heatColour = (value: number): [number, number, number] =>
+  value < 128 ? [value * 2, 0, 0] : [255, (value - 128) * 2, 0];
+
+/**
+ * Compares on the processed image's pixel grid with the original scaled to match, the same
+ * reference the quality search uses. Scores are on luma; the heatmap uses the largest channel error.
+ */
+const compareImages = async (originalUrl: string, processedUrl: string): Promise<Comparison> => {
+  const [original, processed] = await Promise.all([loadImage(originalUrl), loadImage(processedUrl)]);
+  const naturalWidth = processed.naturalWidth || original.naturalWidth;
+  const naturalHeight = processed.naturalHeight || original.naturalHeight;
+  if (!naturalWidth || !naturalHeight) {
+    throw new Error("Image has no intrinsic size");
+  }
+  const scale = Math.min(1, Math.sqrt(MAX_COMPARE_PIXELS / (naturalWidth * naturalHeight)));
+  const width = Math.max(1, Math.round(naturalWidth * scale));
+  const height = Math.max(1, Math.round(naturalHeight * scale));
+
+  const expected = rasterize(original, width, height);
+  const actual = rasterize(processed, width, height);
+
+  const heatmap = createCanvas(width, height);
+  const heatmapContext = heatmap.getContext("2d") as CanvasRenderingContext2D;
+  const pixels = heatmapContext.createImageData(width, height);
+  for (let i = 0; i < expected.length; i += 4) {
+    const error = Math.max(
+      Math.abs(expected[i] - actual[i]),
+      Math.abs(expected[i + 1] - actual[i + 1]),
+      Math.abs(expected[i + 2] - actual[i + 2])
+    );
+    const [r, g, b] = heatColour(Math.min(255, error * HEATMAP_GAIN));
+    pixels.data[i] = r;
+    pixels.data[i + 1] = g;
+    pixels.data[i + 2] = b;
+    pixels.data[i + 3] = 255;
+  }
+  heatmapContext.putImageData(pixels, 0, 0);
+  const heatmapBlob = await new Promise<Blob | null>((resolve) => heatmap.toBlob(resolve));
+
+  // Crop, rotation or a cover fit change the framing; scores would then measure misalignment.
+  const aligned =
+    Math.abs(original.naturalWidth / original.naturalHeight - naturalWidth / naturalHeight) <=
+    ASPECT_TOLERANCE * (naturalWidth / naturalHeight);
+  const expectedLuma = toLuma(expected, 4);
+  const actualLuma = toLuma(actual, 4);
+
+  return {
+    width: naturalWidth,
+    height: naturalHeight,
+    heatmapUrl: heatmapBlob ? URL.createObjectURL(heatmapBlob) : "",
+    metrics: aligned
+      ? { psnr: computePsnr(expectedLuma, actualLuma), ssim: computeSsim(expectedLuma, actualLuma, width, height) }
+      : null,
+  };
+};
+
+export const formatPsnr = (psnr: number) => (Number.isFinite(psnr) ? `${psnr.toFixed(2)} dB` : "∞ (identical)");
+
+export default function CompareView({ originalUrl, processedUrl, onMetrics }: Props) {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [slider, setSlider] = useState(50);
+  const [view, setView] = useState<View>(FIT_VIEW);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let heatmapUrl = "";
+    setComparison(null);
+    setFailed(false);
+    setView(FIT_VIEW);
+    onMetrics?.(null);
+
+    compareImages(originalUrl, processedUrl)
+      .then((result) => {
+        heatmapUrl = result.heatmapUrl;
+        if (cancelled) {
+          URL.revokeObjectURL(heatmapUrl);
+          return;
+        }
+        setComparison(result);
+        onMetrics?.(result.metrics);
+      })
+      .catch((err) => {
+        console.error("Comparison failed", err);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+      if (heatmapUrl) URL.revokeObjectURL(heatmapUrl);
+    };
+  }, [originalUrl, processedUrl, onMetrics]);
+
+  const viewportSize = () => {
+    const rect = (viewportRef.current as HTMLDivElement).getBoundingClientRect();
+    return { rect, width: rect.width, height: rect.height };
+  };
+
+  // Keeps the zoomed image covering the viewport so panning never reveals empty space.
+  const constrain = (next: View): View => {
+    const { width, height } = viewportSize();
+    return {
+      zoom: next.zoom,
+      x: clamp(next.x, width * (1 - next.zoom), 0),
+      y: clamp(next.y, height * (1 - next.zoom), 0),
+    };
+  };
+
+  const maxZoom = () => (comparison ? (MAX_PIXEL_ZOOM * comparison.width) / viewportSize().width : 1);
+
+  // Zooms around a point in viewport coordinates, so the pixel under it stays put.
+  const zoomTo = (zoomFor: (current: number) => number, anchorX: number, anchorY: number) => {
+    setView((prev) => {
+      const nextZoom = clamp(zoomFor(prev.zoom), 1, Math.max(1, maxZoom()));
+      const ratio = nextZoom / prev.zoom;
+      return constrain({ zoom: nextZoom, x: anchorX - (anchorX - prev.x) * ratio, y: anchorY - (anchorY - prev.y) * ratio });
+    });
+  };
+
+  // 1:1 means one image pixel per screen pixel.
+  const zoomToPixels = (pixelsPerPixel: number) => {
+    if (!comparison) return;
+    const { width, height } = viewportSize();
+    zoomTo(() => (pixelsPerPixel * comparison.width) / width, width / 2, height / 2);
+  };
+
+  // React registers wheel listeners as passive, and the page must not scroll while zooming.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const listener = (e: WheelEvent) => {
+      e.preventDefault();
+      const { rect } = viewportSize();
+      const factor = e.deltaY < 0 ? WHEEL_ZOOM_FACTOR : 1 / WHEEL_ZOOM_FACTOR;
+      zoomTo((current) => current * factor, e.clientX - rect.left, e.clientY - rect.top);
+    };
+    viewport.addEventListener("wheel", listener, { passive: false });
+    return () => viewport.removeEventListener("wheel", listener);
+  }, [comparison]);
+
+  const sliderFromEvent = (e: PointerEvent<HTMLDivElement>) => {
+    const { rect } = viewportSize();
+    setSlider(clamp(((e.clientX - rect.left) / rect.width) * 100, 0, 100));
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    // Unzoomed there is nothing to pan, so any drag moves the divider.
+    const onHandle = (e.target as HTMLElement).dataset.handle === "slider";
+    const mode = onHandle || view.zoom === 1 ? "slider" : "pan";
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, origin: view };
+    if (mode === "slider") sliderFromEvent(e);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.mode === "slider") {
+      sliderFromEvent(e);
+      return;
+    }
+    setView(
+      constrain({ ...drag.origin, x: drag.origin.x + e.clientX - drag.startX, y: drag.origin.y + e.clientY - drag.startY })
+    );
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  if (failed) {
+    return <p className="text-xs dark:text-slate-400 text-slate-600">This result cannot be compared in the browser.</p>;
+  }
+  if (!comparison) {
+    return <p className="text-xs dark:text-slate-400 text-slate-600">Comparing…</p>;
+  }
+
+  const pixelated = view.zoom > 1 ? "[image-rendering:pixelated]" : "";
+  const stageStyle = {
+    transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+    transformOrigin: "0 0",
+  };
+  // Both layers share one transform, so zoom and pan stay in sync; only the clip differs.
+  const layer = (src: string, alt: string, clipPath?: string) => (
+    <div className="absolute inset-0" style={{ clipPath }}>
+      <div className="absolute inset-0" style={stageStyle}>
+        <img src={src} alt={alt} draggable={false} className={`w-full h-full ${pixelated}`} />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <button
+          onClick={() => setView(FIT_VIEW)}
+          className={`px-2 py-1 rounded-md border ${
+            view.zoom === 1 ? "border-indigo-500 text-indigo-500" : "dark:border-slate-700 border-slate-300 dark:text-slate-300 text-slate-700"
+          }`}
+        >
+          Fit
+        </button>
+        {PIXEL_ZOOM_STEPS.map((step) => (
+          <button
+            key={step}
+            onClick={() => zoomToPixels(step)}
+            className="px-2 py-1 rounded-md border dark:border-slate-700 border-slate-300 dark:text-slate-300 text-slate-700 hover:border-indigo-500"
+          >
+            {step}:1
+          </button>
+        ))}
+        <label className="ml-auto inline-flex items-center gap-2 dark:text-slate-300 text-slate-700">
+          <input type="checkbox" checked={showHeatmap} onChange={(e) => setShowHeatmap(e.target.checked)} />
+          Difference heatmap
+        </label>
+      </div>
+
+      <div
+        ref={viewportRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        className={`relative w-full mx-auto overflow-hidden rounded-lg sm:rounded-xl dark:bg-slate-950/70 bg-slate-50/70 select-none touch-none ${
+          view.zoom > 1 ? "cursor-grab" : "cursor-ew-resize"
+        }`}
+        style={{
+          aspectRatio: `${comparison.width} / ${comparison.height}`,
+          maxWidth: `calc(32rem * ${comparison.width} / ${comparison.height})`,
+        }}
+      >
+        {layer(originalUrl, "Original")}
+        {layer(
+          showHeatmap ? comparison.heatmapUrl : processedUrl,
+          showHeatmap ? "Difference heatmap" : "Processed",
+          `inset(0 0 0 ${slider}%)`
+        )}
+        <div className="absolute inset-y-0 w-0.5 bg-white/90 shadow" style={{ left: `${slider}%` }}>
+          <div
+            data-handle="slider"
+            className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 left-1/2 w-5 h-8 rounded-md bg-white shadow cursor-ew-resize"
+          />
+        </div>
+        <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/60 text-white text-xs">Original</span>
+        <span className="absolute top-2 right-2 px-2 py-0.5 rounded bg-black/60 text-white text-xs">
+          {showHeatmap ? "Difference" : "Processed"}
+        </span>
+      </div>
+
+      <p className="text-xs dark:text-slate-400 text-slate-600">
+        Drag the divider to compare; scroll to zoom and drag to pan when zoomed.
+        {!comparison.metrics && " The framing differs from the original (crop, rotation or cover fit), so no scores are shown."}
+      </p>
+    </div>
+  );
+}
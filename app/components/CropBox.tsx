@@ -0,0 +1,95 @@
+"use client";
+
+import { useRef, type PointerEvent } from "react";
+import type { CropRect } from "@/lib/types";
+
+type Props = {
+  src: string;
+  alt: string;
+  crop?: CropRect; // always in percent units
+  enabled: boolean;
+  onChange: (crop: CropRect | undefined) => void;
+};
+
+type Drag = { mode: "draw" | "move"; startX: number; startY: number; origin?: CropRect };
+
+const MIN_CROP_PERCENT = 1;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export default function CropBox({ src, alt, crop, enabled, onChange }: Props) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  const pointFromEvent = (e: PointerEvent<HTMLDivElement>) => {
+    const rect = (containerRef.current as HTMLDivElement).getBoundingClientRect();
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * 100, 0, 100),
+      y: clamp(((e.clientY - rect.top) / rect.height) * 100, 0, 100),
+    };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (!enabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = pointFromEvent(e);
+    const inside =
+      crop && x >= crop.left && x <= crop.left + crop.width && y >= crop.top && y <= crop.top + crop.height;
+    dragRef.current = inside ? { mode: "move", startX: x, startY: y, origin: crop } : { mode: "draw", startX: x, startY: y };
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { x, y } = pointFromEvent(e);
+
+    if (drag.mode === "move" && drag.origin) {
+      const { origin } = drag;
+      onChange({
+        ...origin,
+        left: round(clamp(origin.left + x - drag.startX, 0, 100 - origin.width)),
+        top: round(clamp(origin.top + y - drag.startY, 0, 100 - origin.height)),
+      });
+      return;
+    }
+
+    onChange({
+      left: round(Math.min(drag.startX, x)),
+      top: round(Math.min(drag.startY, y)),
+      width: round(Math.abs(x - drag.startX)),
+      height: round(Math.abs(y - drag.startY)),
+      unit: "percent",
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+    // A click without a drag clears the selection instead of leaving a sliver.
+    if (crop && (crop.width < MIN_CROP_PERCENT || crop.height < MIN_CROP_PERCENT)) {
+      onChange(undefined);
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      className={`relative inline-block max-w-full overflow-hidden rounded-lg sm:rounded-xl select-none touch-none ${
+        enabled ? "cursor-crosshair" : ""
+      }`}
+    >
+      <img src={src} alt={alt} draggable={false} className="block max-w-full max-h-64 sm:max-h-96" />
+      {crop && (
+        <div
+          className={`absolute border-2 border-white/90 shadow-[0_0_0_9999px_rgba(2,6,23,0.55)] ${
+            enabled ? "cursor-move" : "pointer-events-none"
+          }`}
+          style={{ left: `${crop.left}%`, top: `${crop.top}%`, width: `${crop.width}%`, height: `${crop.height}%` }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { CHROMA_SUBSAMPLINGS, encoderSchema, TIFF_ENCODER_COMPRESSIONS, TIFF_PREDICTORS } from "@/lib/optionsSchema";
+import type { EncoderOptions } from "@/lib/types";
+
+type EncoderFormat = keyof EncoderOptions;
+
+type Props = {
+  value?: EncoderOptions;
+  format: string;
+  onChange: (value: EncoderOptions | undefined) => void;
+};
+
+const inputClass =
+  "dark:bg-slate-800 bg-white dark:border-slate-700 border-slate-300 rounded-lg px-3 py-2 text-xs sm:text-sm dark:text-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const isEncoderFormat = (format: string): format is EncoderFormat => format in encoderSchema.fields;
+
+// Drops unset fields, then empty format blocks, so untouched settings never reach the request.
+const compact = <T extends object>(value: T): T | undefined => {
+  const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+  return entries.length ? (Object.fromEntries(entries) as T) : undefined;
+};
+
+export default function EncoderControls({ value, format, onChange }: Props) {
+  if (!isEncoderFormat(format)) return null;
+
+  const settings = (value?.[format] ?? {}) as Record<string, unknown>;
+  const fields = encoderSchema.fields[format].fields as Record<string, { min?: number; max?: number; step?: number }>;
+
+  const update = (key: string, entry: unknown) => {
+    const block = compact({ ...settings, [key]: entry });
+    onChange(compact({ ...value, [format]: block }));
+  };
+
+  const numberField = (label: string, key: string, placeholder: string) => (
+    <label key={key} className="flex flex-col text-xs dark:text-slate-400 text-slate-600">
+      {label}
+      <input
+        type="number"
+        min={fields[key].min}
+        max={fields[key].max}
+        step={fields[key].step}
+        className={inputClass}
+        value={(settings[key] as number | undefined) ?? ""}
+        placeholder={placeholder}
+        onChange={(e) => update(key, e.target.value === "" ? undefined : Number(e.target.value))}
+      />
+    </label>
+  );
+
+  const selectField = (label: string, key: string, values: readonly string[], fallback: string) => (
+    <label key={key} className="flex flex-col text-xs dark:text-slate-400 text-slate-600">
+      {label}
+      <select
+        className={inputClass}
+        value={(settings[key] as string | undefined) ?? fallback}
+        onChange={(e) => update(key, e.target.value === fallback ? undefined : e.target.value)}
+      >
+        {values.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const checkboxField = (label: string, key: string, fallback: boolean) => (
+    <label key={key} className="flex items-center gap-2 text-xs dark:text-slate-400 text-slate-600">
+      <input
+        type="checkbox"
+        checked={(settings[key] as boolean | undefined) ?? fallback}
+        onChange={(e) => update(key, e.target.checked === fallback ? undefined : e.target.checked)}
+        className="accent-indigo-500 h-4 w-4"
+      />
+      {label}
+    </label>
+  );
+
+  const controls = {
+    jpeg: () => [
+      selectField("Chroma subsampling", "chromaSubsampling", CHROMA_SUBSAMPLINGS, "4:2:0"),
+      numberField("Quantisation table", "quantisationTable", "3"),
+      checkboxField("Progressive (interlaced)", "progressive", true),
+      checkboxField("Optimise scans", "optimiseScans", true),
+      checkboxField("Trellis quantisation", "trellisQuantisation", true),
+      checkboxField("Overshoot deringing", "overshootDeringing", true),
+    ],
+    webp: () => [
+      numberField("Effort", "effort", "6"),
+      numberField("Alpha quality", "alphaQuality", "100"),
+      checkboxField("Smart subsampling", "smartSubsample", false),
+    ],
+    avif: () => [
+      numberField("Effort", "effort", "6"),
+      numberField("Bit depth", "bitdepth", "8"),
+      selectField("Chroma subsampling", "chromaSubsampling", CHROMA_SUBSAMPLINGS, "4:4:4"),
+    ],
+    tiff: () => [
+      selectField("Compression", "compression", TIFF_ENCODER_COMPRESSIONS, "lzw"),
+      selectField("Predictor", "predictor", TIFF_PREDICTORS, "horizontal"),
+      checkboxField("Tiled", "tile", false),
+      ...(settings.tile ? [numberField("Tile size (px)", "tileSize", "256")] : []),
+    ],
+  }[format]();
+
+  return (
+    <details className="rounded-lg dark:bg-slate-950/60 bg-slate-50/70 px-3 py-2">
+      <summary className="cursor-pointer text-xs sm:text-sm dark:text-slate-300 text-slate-700">
+        Advanced {format.toUpperCase()} encoder settings
+      </summary>
+      <div className="mt-2 grid grid-cols-2 sm:grid-cols-3 gap-2">{controls}</div>
+    </details>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import type { ImageInspection, MetadataFields, MetadataRetention } from "@/lib/types";
+
+type Props = {
+  inspection: ImageInspection | null;
+  loading: boolean;
+  retention: MetadataRetention;
+};
+
+type Section = "exif" | "gps" | "iptc" | "xmp" | "icc";
+
+// What each retention mode does to each block, mirroring lib/metadata.ts.
+const EXPORT_NOTES: Record<MetadataRetention, Partial<Record<Section, string>>> = {
+  none: { exif: "removed", gps: "removed", iptc: "removed", xmp: "removed", icc: "removed" },
+  icc: { exif: "removed", gps: "removed", iptc: "removed", xmp: "removed" },
+  safe: { exif: "partly kept", gps: "removed", iptc: "removed", xmp: "removed" },
+  all: {},
+};
+
+const formatValue = (value: unknown) => (typeof value === "string" ? value : JSON.stringify(value));
+
+const ORIENTATIONS: Record<number, string> = {
+  1: "Normal",
+  2: "Mirrored",
+  3: "Rotated 180°",
+  4: "Mirrored, rotated 180°",
+  5: "Mirrored, rotated 90° CCW",
+  6: "Rotated 90° CW",
+  7: "Mirrored, rotated 90° CW",
+  8: "Rotated 90° CCW",
+};
+
+function MetadataSection({ title, fields, note }: { title: string; fields?: MetadataFields | string; note?: string }) {
+  if (!fields) return null;
+  const entries = typeof fields === "string" ? [["raw", fields] as const] : Object.entries(fields);
+
+  return (
+    <details className="rounded-lg dark:bg-slate-950/60 bg-slate-50/70 px-3 py-2">
+      <summary className="cursor-pointer text-xs font-medium dark:text-slate-200 text-slate-800">
+        {title} ({entries.length}){" "}
+        {note && <span className="ml-1 dark:text-amber-300 text-amber-600">{note} on export</span>}
+      </summary>
+      <dl className="mt-2 grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-x-3 gap-y-1 text-[11px] max-h-48 overflow-auto">
+        {entries.map(([key, value]) => (
+          <div key={key} className="contents">
+            <dt className="truncate dark:text-slate-400 text-slate-600">{key}</dt>
+            <dd className="break-all dark:text-slate-200 text-slate-800">{formatValue(value)}</dd>
+          </div>
+        ))}
+      </dl>
+    </details>
+  );
+}
+
+export default function InfoPanel({ inspection, loading, retention }: Props) {
+  if (loading) {
+    return <p className="text-xs dark:text-slate-400 text-slate-600">Reading image info…</p>;
+  }
+  if (!inspection) return null;
+
+  const summary: [string, string | number | undefined][] = [
+    ["Format", inspection.format?.toUpperCase()],
+    ["Dimensions", inspection.width && inspection.height ? `${inspection.width}×${inspection.height}px` : undefined],
+    ["Colour space", inspection.space],
+    ["Bit depth", inspection.bitDepth ? `${inspection.bitDepth}-bit × ${inspection.channels} channels` : undefined],
+    ["Alpha", inspection.hasAlpha ? "Yes" : "No"],
+    ["ICC profile", inspection.iccProfileName ?? (inspection.icc ? "Embedded" : "None")],
+    ["Orientation", inspection.orientation ? ORIENTATIONS[inspection.orientation] : undefined],
+    ["Chroma subsampling", inspection.chromaSubsampling],
+    ["Density", inspection.density ? `${inspection.density} dpi` : undefined],
+    ["Frames", inspection.pages > 1 ? inspection.pages : undefined],
+    [
+      "Frame delays",
+      inspection.frameDelays?.length ? `${inspection.frameDelays.join(", ")} ms` : undefined,
+    ],
+    ["Loop", inspection.loop === undefined ? undefined : inspection.loop === 0 ? "Forever" : `${inspection.loop}×`],
+  ];
+  const notes = EXPORT_NOTES[retention];
+  const hasMetadata = Boolean(inspection.exif || inspection.gps || inspection.iptc || inspection.xmp || inspection.icc);
+
+  return (
+    <div className="mt-3 space-y-2">
+      <h4 className="text-xs font-semibold dark:text-white text-slate-900">Info</h4>
+      <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+        {summary
+          .filter(([, value]) => value !== undefined)
+          .map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="dark:text-slate-400 text-slate-600">{label}</dt>
+              <dd className="dark:text-slate-200 text-slate-800">{value}</dd>
+            </div>
+          ))}
+      </dl>
+      {hasMetadata ? (
+        <div className="space-y-1">
+          <MetadataSection title="EXIF" fields={inspection.exif} note={notes.exif} />
+          <MetadataSection title="GPS" fields={inspection.gps} note={notes.gps} />
+          <MetadataSection title="IPTC" fields={inspection.iptc} note={notes.iptc} />
+          <MetadataSection title="XMP" fields={inspection.xmp} note={notes.xmp} />
+          <MetadataSection title="ICC profile" fields={inspection.icc} note={notes.icc} />
+        </div>
+      ) : (
+        <p className="text-xs dark:text-slate-400 text-slate-600">No embedded metadata.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { TIFF_COMPRESSIONS } from "@/lib/optionsSchema";
+import type { LosslessOptions, TiffCompression } from "@/lib/types";
+
+type Props = {
+  value?: LosslessOptions;
+  format: string; // output format, or the source format when converting in place
+  quality: number;
+  onChange: (value: LosslessOptions | undefined) => void;
+};
+
+const LOSSY_ONLY = ["jpeg", "gif"];
+
+const inputClass =
+  "dark:bg-slate-800 bg-white dark:border-slate-700 border-slate-300 rounded-lg px-3 py-2 text-xs sm:text-sm dark:text-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+export default function LosslessControls({ value, format, quality, onChange }: Props) {
+  const update = (patch: Partial<LosslessOptions>) => {
+    const next = Object.fromEntries(
+      Object.entries({ ...value, ...patch }).filter(([, entry]) => entry !== undefined)
+    ) as LosslessOptions;
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-xs sm:text-sm dark:text-slate-300 text-slate-700">
+        <input
+          type="checkbox"
+          checked={Boolean(value)}
+          onChange={(e) => onChange(e.target.checked ? {} : undefined)}
+          className="accent-indigo-500 h-4 w-4"
+        />
+        Lossless
+      </label>
+
+      {value && LOSSY_ONLY.includes(format) && (
+        <p className="text-xs dark:text-amber-300 text-amber-600">
+          {format.toUpperCase()} has no lossless mode; it will be encoded at quality {quality}. Choose WebP, AVIF, PNG or
+          TIFF for an exact copy.
+        </p>
+      )}
+
+      {value && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+          {(format === "webp" || format === "auto") && (
+            <label
+              className="flex items-center gap-2 text-xs dark:text-slate-400 text-slate-600"
+              title="Lets WebP adjust pixels slightly before the lossless encode; quality sets how much"
+            >
+              <input
+                type="checkbox"
+                checked={Boolean(value.nearLossless)}
+                onChange={(e) => update({ nearLossless: e.target.checked || undefined })}
+                className="accent-indigo-500 h-4 w-4"
+              />
+              Near-lossless (WebP)
+            </label>
+          )}
+          {format === "tiff" && (
+            <label className="flex flex-col text-xs dark:text-slate-400 text-slate-600">
+              TIFF compression
+              <select
+                className={inputClass}
+                value={value.compression ?? "deflate"}
+                onChange={(e) => update({ compression: e.target.value as TiffCompression })}
+              >
+                {TIFF_COMPRESSIONS.map((compression) => (
+                  <option key={compression} value={compression}>
+                    {compression === "deflate" ? "Deflate" : "Zstandard"}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="flex items-center gap-2 text-xs dark:text-slate-400 text-slate-600">
+            <input
+              type="checkbox"
+              checked={Boolean(value.verify)}
+              onChange={(e) => update({ verify: e.target.checked || undefined })}
+              className="accent-indigo-500 h-4 w-4"
+            />
+            Verify pixels after encoding
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
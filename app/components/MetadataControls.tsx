@@ -0,0 +1,74 @@
+"use client";
+
+import { METADATA_RETENTION, metadataSchema } from "@/lib/optionsSchema";
+import type { MetadataOptions, MetadataRetention } from "@/lib/types";
+
+type Props = {
+  value: MetadataOptions;
+  format: string; // output format, or the source format when converting in place
+  onChange: (value: MetadataOptions) => void;
+};
+
+const limits = metadataSchema.fields;
+
+const RETENTION_LABELS: Record<MetadataRetention, string> = {
+  none: "Strip everything",
+  icc: "Keep colour profile only",
+  safe: "Keep copyright & camera info (no GPS/serials)",
+  all: "Keep everything",
+};
+
+const inputClass =
+  "dark:bg-slate-800 bg-white dark:border-slate-700 border-slate-300 rounded-lg px-3 py-2 text-xs sm:text-sm dark:text-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+export default function MetadataControls({ value, format, onChange }: Props) {
+  const update = (patch: Partial<MetadataOptions>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="flex flex-col space-y-1">
+      <label className="text-xs sm:text-sm dark:text-slate-300 text-slate-700">Metadata</label>
+      <select
+        className={inputClass}
+        value={value.keep ?? "none"}
+        onChange={(e) => update({ keep: e.target.value as MetadataRetention })}
+      >
+        {METADATA_RETENTION.map((keep) => (
+          <option key={keep} value={keep}>
+            {RETENTION_LABELS[keep]}
+          </option>
+        ))}
+      </select>
+      {format === "tiff" && value.keep === "all" && (
+        <p className="text-xs dark:text-amber-300 text-amber-600">
+          TIFF cannot carry EXIF; only the copyright and camera details are kept, as XMP.
+        </p>
+      )}
+      <details className="text-xs dark:text-slate-400 text-slate-600">
+        <summary className="cursor-pointer">Write copyright, artist, description</summary>
+        <div className="mt-2 flex flex-col gap-2">
+          <input
+            className={inputClass}
+            value={value.copyright ?? ""}
+            maxLength={limits.copyright.maxLength}
+            onChange={(e) => update({ copyright: e.target.value || undefined })}
+            placeholder="Copyright"
+          />
+          <input
+            className={inputClass}
+            value={value.artist ?? ""}
+            maxLength={limits.artist.maxLength}
+            onChange={(e) => update({ artist: e.target.value || undefined })}
+            placeholder="Artist"
+          />
+          <input
+            className={inputClass}
+            value={value.description ?? ""}
+            maxLength={limits.description.maxLength}
+            onChange={(e) => update({ description: e.target.value || undefined })}
+            placeholder="Description"
+          />
+        </div>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { paletteSchema } from "@/lib/optionsSchema";
+import type { PaletteOptions } from "@/lib/types";
+
+type Props = {
+  value?: PaletteOptions;
+  format: "png" | "gif";
+  onChange: (value: PaletteOptions | undefined) => void;
+};
+
+const limits = paletteSchema.fields;
+
+const inputClass =
+  "dark:bg-slate-800 bg-white dark:border-slate-700 border-slate-300 rounded-lg px-3 py-2 text-xs sm:text-sm dark:text-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+export default function PaletteControls({ value, format, onChange }: Props) {
+  const update = (patch: Partial<PaletteOptions>) => {
+    const next = Object.fromEntries(
+      Object.entries({ ...value, ...patch }).filter(([, entry]) => entry !== undefined)
+    ) as PaletteOptions;
+    onChange(Object.keys(next).length ? next : undefined);
+  };
+
+  const quantized = format === "gif" || value?.quantize !== false;
+  const dither = value?.dither ?? 1;
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs sm:text-sm dark:text-slate-300 text-slate-700">Palette</label>
+      {format === "png" && (
+        <label className="flex items-center gap-2 text-xs dark:text-slate-400 text-slate-600">
+          <input
+            type="checkbox"
+            checked={quantized}
+            onChange={(e) => update({ quantize: e.target.checked ? undefined : false })}
+            className="accent-indigo-500 h-4 w-4"
+          />
+          Quantize to a palette (off = lossless truecolour)
+        </label>
+      )}
+
+      {quantized && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+          <label className="flex flex-col text-xs dark:text-slate-400 text-slate-600">
+            Max colours
+            <input
+              type="number"
+              min={limits.colours.min}
+              max={limits.colours.max}
+              className={inputClass}
+              value={value?.colours ?? ""}
+              placeholder="256"
+              onChange={(e) => update({ colours: e.target.value === "" ? undefined : Number(e.target.value) })}
+            />
+          </label>
+          <label className="flex flex-col text-xs dark:text-slate-400 text-slate-600">
+            Dithering: {Math.round(dither * 100)}%
+            <input
+              type="range"
+              min={limits.dither.min}
+              max={limits.dither.max}
+              step={0.05}
+              className="accent-indigo-500 mt-2"
+              value={dither}
+              onChange={(e) => update({ dither: Number(e.target.value) === 1 ? undefined : Number(e.target.value) })}
+            />
+          </label>
+          <label
+            className="flex items-center gap-2 text-xs dark:text-slate-400 text-slate-600"
+            title="Off flattens transparency onto the background colour before quantizing"
+          >
+            <input
+              type="checkbox"
+              checked={value?.alphaAware !== false}
+              onChange={(e) => update({ alphaAware: e.target.checked ? undefined : false })}
+              className="accent-indigo-500 h-4 w-4"
+            />
+            Keep transparency
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
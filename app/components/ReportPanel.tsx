@@ -0,0 +1,110 @@
+"use client";
+
+import type { ProcessReport } from "@/lib/types";
+
+type Props = {
+  report: ProcessReport;
+};
+
+const formatKB = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
+
+const describeTarget = (target: NonNullable<ProcessReport["target"]>) =>
+  [
+    target.sizeKB !== undefined ? `≤ ${target.sizeKB} KB` : undefined,
+    target.qualityScore !== undefined ? `SSIM ≥ ${target.qualityScore}` : undefined,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+const describeLossless = ({ mode, verification }: NonNullable<ProcessReport["lossless"]>, format: string) => {
+  const label =
+    mode === "lossy" ? `Lossy (${format.toUpperCase()} has no lossless mode)` : mode === "lossless" ? "Lossless" : "Near-lossless";
+  if (!verification) return label;
+  return verification.identical
+    ? `${label}, verified pixel-identical`
+    : `${label}, ${verification.differingPixels} pixels differ (max ${verification.maxDifference})`;
+};
+
+export default function ReportPanel({ report }: Props) {
+  const { timings, target, lossless } = report;
+  const summary: [string, string | undefined][] = [
+    ["Format", report.format.toUpperCase()],
+    ["Final quality", report.quality?.toString()],
+    ["Size", `${formatKB(report.inputBytes)} → ${formatKB(report.outputBytes)}`],
+    ["Compression", `${report.compressionRatio}:1`],
+    ["Target", target ? `${describeTarget(target)} (${target.met ? "met" : "not met"})` : undefined],
+    ["SSIM", report.qualityScore?.toFixed(4)],
+    [
+      "Size fallback",
+      report.fallback?.length ? report.fallback.map((applied) => applied.detail).join(" → ") : undefined,
+    ],
+    ["Lossless", lossless ? describeLossless(lossless, report.format) : undefined],
+    [
+      "Time",
+      timings.encodeMs !== undefined
+        ? `${timings.totalMs} ms total (prepare ${timings.prepareMs} ms, encode ${timings.encodeMs} ms)`
+        : `${timings.totalMs} ms total`,
+    ],
+    ["Cache", report.cache === "HIT" ? "Hit (encode time is from the original run)" : report.cache ? "Miss" : undefined],
+  ];
+
+  return (
+    <div className="mt-3 space-y-2">
+      <h4 className="text-xs font-semibold dark:text-white text-slate-900">Report</h4>
+      <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+        {summary
+          .filter(([, value]) => value !== undefined)
+          .map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="dark:text-slate-400 text-slate-600">{label}</dt>
+              <dd
+                className={
+                  (label === "Target" && target && !target.met) ||
+                  (label === "Lossless" && lossless && (lossless.mode === "lossy" || lossless.verification?.identical === false))
+                    ? "dark:text-amber-300 text-amber-600"
+                    : "dark:text-slate-200 text-slate-800"
+                }
+              >
+                {value}
+              </dd>
+            </div>
+          ))}
+      </dl>
+      {report.search.length > 0 && (
+        <details className="rounded-lg dark:bg-slate-950/60 bg-slate-50/70 px-3 py-2">
+          <summary className="cursor-pointer text-xs font-medium dark:text-slate-200 text-slate-800">
+            Quality search ({report.search.length} render{report.search.length === 1 ? "" : "s"})
+          </summary>
+          <table className="mt-2 w-full text-[11px] text-left">
+            <thead className="dark:text-slate-400 text-slate-600">
+              <tr>
+                <th className="font-normal">#</th>
+                <th className="font-normal">Format</th>
+                <th className="font-normal">Quality</th>
+                <th className="font-normal">Size</th>
+                <th className="font-normal">SSIM</th>
+              </tr>
+            </thead>
+            <tbody className="dark:text-slate-200 text-slate-800">
+              {report.search.map((step, index) => (
+                <tr key={index}>
+                  <td>{index + 1}</td>
+                  <td>{step.format.toUpperCase()}</td>
+                  <td>{step.quality}</td>
+                  <td>{formatKB(step.size)}</td>
+                  <td>{step.qualityScore?.toFixed(4) ?? "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      )}
+      <details className="rounded-lg dark:bg-slate-950/60 bg-slate-50/70 px-3 py-2">
+        <summary className="cursor-pointer text-xs font-medium dark:text-slate-200 text-slate-800">Resolved options</summary>
+        <pre className="mt-2 text-[11px] max-h-48 overflow-auto dark:text-slate-200 text-slate-800">
+          {JSON.stringify(report.options, null, 2)}
+        </pre>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { WATERMARK_ANCHORS, watermarkSchema } from "@/lib/optionsSchema";
+import type { WatermarkOptions } from "@/lib/types";
+
+type Props = {
+  value?: WatermarkOptions;
+  logo: File | null;
+  onChange: (value: WatermarkOptions | undefined) => void;
+  onLogoChange: (file: File | null) => void;
+};
+
+const limits = watermarkSchema.fields;
+
+const inputClass =
+  "dark:bg-slate-800 bg-white dark:border-slate-700 border-slate-300 rounded-lg px-3 py-2 text-xs sm:text-sm dark:text-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+export default function WatermarkControls({ value, logo, onChange, onLogoChange }: Props) {
+  // Text marks carry a text field; logo marks get their image from the uploaded file.
+  const mode = !value ? "none" : value.text !== undefined ? "text" : "image";
+
+  const update = (patch: Partial<WatermarkOptions>) => onChange({ ...value, ...patch });
+
+  const handleModeChange = (next: string) => {
+    const { text: _text, ...common } = value ?? {};
+    if (next === "none") {
+      onChange(undefined);
+    } else if (next === "text") {
+      onChange({ ...common, text: "© " });
+    } else {
+      onChange(common);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-col space-y-1">
+        <label className="text-xs sm:text-sm dark:text-slate-300 text-slate-700">Watermark</label>
+        <select className={inputClass} value={mode} onChange={(e) => handleModeChange(e.target.value)}>
+          <option value="none">None</option>
+          <option value="text">Text</option>
+          <option value="image">Logo image</option>
+        </select>
+      </div>
+
+      {mode === "text" && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <input
+            className={`${inputClass} sm:col-span-3`}
+            value={value?.text ?? ""}
+            maxLength={limits.text.maxLength}
+            onChange={(e) => update({ text: e.target.value })}
+            placeholder="© Your company"
+          />
+          <label className="flex flex-col text-xs dark:text-slate-400 text-slate-600">
+            Size (% width)
+            <input
+              type="number"
+              min={limits.fontSize.min}
+              max={limits.fontSize.max}
+              step={0.5}
+              className={inputClass}
+              value={value?.fontSize ?? 5}
+              onChange={(e) => update({ fontSize: Number(e.target.value) })}
+            />
+          </label>
+          <label className="flex flex-col text-xs dark:text-slate-400 text-slate-600">
+            Colour
+            <input
+              type="color"
+              className="h-9 w-full rounded-lg dark:bg-slate-800 bg-white"
+              value={value?.color ?? "#ffffff"}
+              onChange={(e) => update({ color: e.target.value })}
+            />
+          </label>
+        </div>
+      )}
+
+      {mode === "image" && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <label className="flex flex-col text-xs dark:text-slate-400 text-slate-600">
+            Logo file
+            <input
+              type="file"
+              accept="image/*"
+              className="text-xs"
+              onChange={(e) => onLogoChange(e.target.files?.[0] ?? null)}
+            />
+            {logo && <span className="mt-1 truncate">{logo.name}</span>}
+          </label>
+          <label className="flex flex-col text-xs dark:text-slate-400 text-slate-600">
+            Width (% of image)
+            <input
+              type="number"
+              min={limits.scale.min}
+              max={limits.scale.max}
+              className={inputClass}
+              value={value?.scale ?? 20}
+              onChange={(e) => update({ scale: Number(e.target.value) })}
+            />
+          </label>
+        </div>
+      )}
+
+      {mode !== "none" && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <label className="flex flex-col text-xs dark:text-slate-400 text-slate-600">
+            Position
+            <select
+              className={inputClass}
+              value={value?.anchor ?? "bottom-right"}
+              disabled={value?.tile}
+              onChange={(e) => update({ anchor: e.target.value as WatermarkOptions["anchor"] })}
+            >
+              {WATERMARK_ANCHORS.map((anchor) => (
+                <option key={anchor} value={anchor}>
+                  {anchor}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col text-xs dark:text-slate-400 text-slate-600">
+            Opacity: {Math.round((value?.opacity ?? 0.5) * 100)}%
+            <input
+              type="range"
+              min={limits.opacity.min}
+              max={limits.opacity.max}
+              step={0.05}
+              className="accent-indigo-500 mt-2"
+              value={value?.opacity ?? 0.5}
+              onChange={(e) => update({ opacity: Number(e.target.value) })}
+            />
+          </label>
+          <label className="flex flex-col text-xs dark:text-slate-400 text-slate-600">
+            Margin (% width)
+            <input
+              type="number"
+              min={limits.margin.min}
+              max={limits.margin.max}
+              className={inputClass}
+              value={value?.margin ?? 2}
+              onChange={(e) => update({ margin: Number(e.target.value) })}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-xs sm:text-sm dark:text-slate-300 text-slate-700">
+            <input
+              type="checkbox"
+              checked={Boolean(value?.tile)}
+              onChange={(e) => update({ tile: e.target.checked })}
+              className="accent-indigo-500 h-4 w-4"
+            />
+            Tile across image
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,24 +1,90 @@
 "use client";
 
 import { useEffect, useMemo, useState, type ChangeEvent, type DragEvent } from "react";
+import AnimationControls from "@/app/components/AnimationControls";
+import CompareView, { formatPsnr, type CompareMetrics } from "@/app/components/CompareView";
+import CropBox from "@/app/components/CropBox";
+import ColourControls from "@/app/components/ColourControls";
+import EncoderControls from "@/app/components/EncoderControls";
+import InfoPanel from "@/app/components/InfoPanel";
+import LosslessControls from "@/app/components/LosslessControls";
+import MetadataControls from "@/app/components/MetadataControls";
+import PaletteControls from "@/app/components/PaletteControls";
+import ReportPanel from "@/app/components/ReportPanel";
+import WatermarkControls from "@/app/components/WatermarkControls";
+import { FIT_MODES, OUTPUT_FORMATS, RESIZE_POSITIONS, processOptionsSchema } from "@/lib/optionsSchema";
+import type {
+  AnimationOptions,
+  ColourOptions,
+  CropRect,
+  EncoderOptions,
+  FitMode,
+  FormatCandidate,
+  ImageInspection,
+  JobSnapshot,
+  LosslessOptions,
+  MetadataOptions,
+  PaletteOptions,
+  ProcessReport,
+  ResizePosition,
+  SizeFallbackOptions,
+  SvgOptions,
+  WatermarkOptions,
+} from "@/lib/types";
+import type { FieldError } from "@/lib/validation";
+
+const limits = processOptionsSchema.fields;
 
 type Preset = {
   id: string;
   name: string;
   description: string;
+  custom?: boolean;
   options: {
     format?: string;
     quality?: number;
     targetSizeKB?: number;
+    targetQualityScore?: number;
+    sizeFallback?: SizeFallbackOptions;
+    palette?: PaletteOptions;
+    lossless?: LosslessOptions;
+    encoder?: EncoderOptions;
+    colour?: ColourOptions;
     width?: number;
     height?: number;
     keepAspectRatio?: boolean;
+    fit?: FitMode;
+    position?: ResizePosition;
     stripMetadata?: boolean;
+    metadata?: MetadataOptions;
+    responsive?: { widths: number[]; formats: string[]; sizes?: string };
   };
 };
 
 type Dimensions = { width: number; height: number };
 
+const JOB_POLL_INTERVAL_MS = 750;
+
+const STAGE_LABELS: Record<NonNullable<JobSnapshot["progress"]>["stage"], string> = {
+  preparing: "Preparing",
+  encoding: "Encoding",
+  searching: "Searching quality",
+  fallback: "Trying size fallbacks",
+  verifying: "Verifying pixels",
+  variants: "Rendering variants",
+};
+
+const describeJob = (job: JobSnapshot) => {
+  if (job.status === "queued") return "Queued…";
+  const progress = job.progress;
+  if (!progress) return "Starting…";
+  const step = progress.iteration !== undefined ? ` ${progress.iteration}/${progress.maxIterations}` : "";
+  const format = progress.format ? ` ${progress.format.toUpperCase()}` : "";
+  return `${STAGE_LABELS[progress.stage]}${format}${step}…`;
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
 const formatBytes = (bytes?: number) => {
   if (!bytes) return "—";
   const kb = bytes / 1024;
@@ -40,20 +106,54 @@ export default function Home() {
   const [processedUrl, setProcessedUrl] = useState<string | null>(null);
   const [aspectRatio, setAspectRatio] = useState<number | null>(null);
   const [originalInfo, setOriginalInfo] = useState<Partial<Dimensions> & { size?: number }>({});
-  const [processedInfo, setProcessedInfo] = useState<Partial<Dimensions> & { size?: number }>({});
+  const [processedInfo, setProcessedInfo] = useState<
+    Partial<Dimensions> & {
+      size?: number;
+      qualityScore?: number;
+      format?: string;
+      candidates?: FormatCandidate[];
+      report?: ProcessReport;
+    }
+  >({});
+  const [processedIsArchive, setProcessedIsArchive] = useState(false);
+  const [compareMetrics, setCompareMetrics] = useState<CompareMetrics | null>(null);
+  const [inspection, setInspection] = useState<ImageInspection | null>(null);
+  const [inspecting, setInspecting] = useState(false);
   const [presets, setPresets] = useState<Preset[]>([]);
   const [loading, setLoading] = useState(false);
+  const [job, setJob] = useState<JobSnapshot | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
+  const [cropMode, setCropMode] = useState(false);
+  const [watermarkLogo, setWatermarkLogo] = useState<File | null>(null);
 
   const [options, setOptions] = useState({
     presetId: "",
     format: "webp",
     quality: 85,
-    targetSizeKB: 500,
+    targetSizeKB: 500 as number | undefined,
+    targetQualityScore: undefined as number | undefined,
+    sizeFallback: undefined as SizeFallbackOptions | undefined,
     width: undefined as number | undefined,
     height: undefined as number | undefined,
     keepAspectRatio: true,
-    stripMetadata: true,
+    fit: "" as FitMode | "",
+    position: "centre" as ResizePosition,
+    metadata: { keep: "none" } as MetadataOptions,
+    responsive: undefined as Preset["options"]["responsive"],
+    autoOrient: true,
+    crop: undefined as CropRect | undefined,
+    flipHorizontal: false,
+    flipVertical: false,
+    rotate: 0,
+    background: "#ffffff",
+    watermark: undefined as WatermarkOptions | undefined,
+    animation: undefined as AnimationOptions | undefined,
+    svg: undefined as SvgOptions | undefined,
+    palette: undefined as PaletteOptions | undefined,
+    lossless: undefined as LosslessOptions | undefined,
+    encoder: undefined as EncoderOptions | undefined,
+    colour: undefined as ColourOptions | undefined,
   });
 
   useEffect(() => {
@@ -76,18 +176,19 @@ export default function Home() {
     document.body.classList.add(newTheme);
   };
 
-  useEffect(() => {
-    const fetchPresets = async () => {
-      try {
-        const res = await fetch("/api/presets");
-        if (res.ok) {
-          const data = await res.json();
-          setPresets(data);
-        }
-      } catch (err) {
-        console.error("Failed to load presets", err);
+  const fetchPresets = async () => {
+    try {
+      const res = await fetch("/api/presets");
+      if (res.ok) {
+        const data = await res.json();
+        setPresets(data);
       }
-    };
+    } catch (err) {
+      console.error("Failed to load presets", err);
+    }
+  };
+
+  useEffect(() => {
     fetchPresets();
   }, []);
 
@@ -101,6 +202,8 @@ export default function Home() {
 
     const objectUrl = URL.createObjectURL(incoming);
     setOriginalUrl(objectUrl);
+    setOptions((prev) => ({ ...prev, crop: undefined, animation: undefined }));
+    inspectFile(incoming);
     const size = incoming.size;
 
     try {
@@ -119,6 +222,25 @@ export default function Home() {
     }
   };
 
+  const inspectFile = async (incoming: File) => {
+    setInspection(null);
+    setInspecting(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", incoming);
+      const response = await fetch("/api/inspect", { method: "POST", body: formData });
+      if (response.ok) {
+        setInspection(await response.json());
+      }
+    } catch (e) {
+      console.error("Inspection failed", e);
+    } finally {
+      setInspecting(false);
+    }
+  };
+
+  const sourceIsSvg = inspection?.format === "svg";
+
   const handleDrop = (e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     const dropped = e.dataTransfer.files?.[0];
@@ -145,10 +267,28 @@ export default function Home() {
         format: "webp",
         quality: 85,
         targetSizeKB: 500,
+        targetQualityScore: undefined,
+        sizeFallback: undefined,
         width: undefined,
         height: undefined,
         keepAspectRatio: true,
-        stripMetadata: true,
+        fit: "",
+        position: "centre",
+        metadata: { keep: "none" },
+        responsive: undefined,
+        autoOrient: true,
+        crop: undefined,
+        flipHorizontal: false,
+        flipVertical: false,
+        rotate: 0,
+        background: "#ffffff",
+        watermark: undefined,
+        animation: undefined,
+        svg: undefined,
+        palette: undefined,
+        lossless: undefined,
+        encoder: undefined,
+        colour: undefined,
       });
       return;
     }
@@ -164,6 +304,16 @@ export default function Home() {
       // Preserve width/height if they were manually set, unless preset specifies them
       width: preset.options.width !== undefined ? preset.options.width : prev.width,
       height: preset.options.height !== undefined ? preset.options.height : prev.height,
+      targetQualityScore: preset.options.targetQualityScore,
+      sizeFallback: preset.options.sizeFallback,
+      palette: preset.options.palette,
+      lossless: preset.options.lossless,
+      encoder: preset.options.encoder,
+      colour: preset.options.colour,
+      fit: preset.options.fit ?? "",
+      position: preset.options.position ?? "centre",
+      responsive: preset.options.responsive,
+      metadata: preset.options.metadata ?? { keep: preset.options.stripMetadata === false ? "all" : "none" },
     }));
   };
 
@@ -190,6 +340,54 @@ export default function Home() {
     }
   };
 
+  const buildPayload = () => ({
+    ...options,
+    width: options.width ? Number(options.width) : undefined,
+    height: options.height ? Number(options.height) : undefined,
+    quality: Number(options.quality),
+    targetSizeKB: options.targetSizeKB ? Number(options.targetSizeKB) : undefined,
+    targetQualityScore: options.targetQualityScore ? Number(options.targetQualityScore) : undefined,
+    rotate: options.rotate ? Number(options.rotate) : undefined,
+    fit: options.fit || undefined,
+    position: options.fit === "cover" ? options.position : undefined,
+    presetId: options.presetId || undefined,
+  });
+
+  const saveAsPreset = async () => {
+    const name = window.prompt("Name for the new preset");
+    if (!name?.trim()) return;
+    setError(null);
+
+    const { presetId: _presetId, ...presetOptions } = buildPayload();
+    try {
+      const response = await fetch("/api/presets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, description: "Custom preset", options: presetOptions }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.message ?? "Failed to save preset");
+      }
+      await fetchPresets();
+      setOptions((prev) => ({ ...prev, presetId: body.id }));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to save preset");
+    }
+  };
+
+  const deletePreset = async (presetId: string) => {
+    if (!window.confirm("Delete this custom preset?")) return;
+    const response = await fetch(`/api/presets?id=${encodeURIComponent(presetId)}`, { method: "DELETE" });
+    if (!response.ok) {
+      setError("Failed to delete preset");
+      return;
+    }
+    await fetchPresets();
+    handlePresetSelect("");
+  };
+
   const onProcess = async () => {
     if (!file) {
       setError("Please add an image to process.");
@@ -197,48 +395,88 @@ export default function Home() {
     }
     setLoading(true);
     setError(null);
+    setFieldErrors([]);
 
     const formData = new FormData();
     formData.append("file", file);
 
-    const payload = {
-      ...options,
-      width: options.width ? Number(options.width) : undefined,
-      height: options.height ? Number(options.height) : undefined,
-      quality: Number(options.quality),
-      targetSizeKB: Number(options.targetSizeKB),
-      presetId: options.presetId || undefined,
-    };
-    formData.append("options", JSON.stringify(payload));
+    formData.append("options", JSON.stringify(buildPayload()));
+    if (options.watermark && options.watermark.text === undefined && watermarkLogo) {
+      formData.append("watermark", watermarkLogo);
+    }
 
     try {
-      const response = await fetch("/api/process", {
+      // Work runs as a background job so long encodes are not bound by the request timeout.
+      const submitted = await fetch("/api/jobs", {
         method: "POST",
         body: formData,
       });
-      if (!response.ok) {
+      const body = await submitted.json().catch(() => null);
+      if (!submitted.ok) {
+        if (submitted.status === 400 && Array.isArray(body?.errors)) {
+          setFieldErrors(body.errors);
+        }
         throw new Error("Processing failed");
       }
+
+      let snapshot: JobSnapshot = body;
+
+      setJob(snapshot);
+      while (snapshot.status === "queued" || snapshot.status === "running") {
+        await wait(JOB_POLL_INTERVAL_MS);
+        const poll = await fetch(`/api/jobs/${snapshot.id}`);
+        if (!poll.ok) throw new Error("Job status unavailable");
+        snapshot = await poll.json();
+        setJob(snapshot);
+      }
+      if (snapshot.status === "cancelled") {
+        setError("Processing cancelled.");
+        return;
+      }
+      if (snapshot.status === "failed") {
+        setError(snapshot.error ?? "Processing failed.");
+        return;
+      }
+
+      const response = await fetch(`/api/jobs/${snapshot.id}/result`);
+      if (!response.ok) throw new Error("Result download failed");
       const blob = await response.blob();
       const url = URL.createObjectURL(blob);
       setProcessedUrl((prev) => {
         if (prev) URL.revokeObjectURL(prev);
         return url;
       });
-      const dims = await readDimensions(url).catch(() => undefined);
+      // Responsive sets come back as a ZIP of variants; there is no single image to preview.
+      const isArchive = blob.type === "application/zip";
+      setProcessedIsArchive(isArchive);
+      setCompareMetrics(null);
+      if (isArchive) {
+        setProcessedInfo({ size: blob.size });
+        return;
+      }
       setProcessedInfo({
         size: blob.size,
-        width: dims?.width,
-        height: dims?.height,
+        width: snapshot.result?.width,
+        height: snapshot.result?.height,
+        qualityScore: snapshot.result?.qualityScore,
+        format: snapshot.result?.format,
+        candidates: snapshot.result?.candidates,
+        report: snapshot.result?.report,
       });
     } catch (err) {
       console.error(err);
       setError("Unable to process image. Please verify the inputs and try again.");
     } finally {
       setLoading(false);
+      setJob(null);
     }
   };
 
+  const cancelJob = async () => {
+    if (!job) return;
+    await fetch(`/api/jobs/${job.id}`, { method: "DELETE" }).catch((err) => console.error("Cancel failed", err));
+  };
+
   const presetDescription = useMemo(
     () => presets.find((p) => p.id === options.presetId)?.description,
     [presets, options.presetId]
@@ -314,7 +552,39 @@ export default function Home() {
                 </span>
               </div>
               {originalUrl ? (
-                <img src={originalUrl} alt="Original preview" className="rounded-lg sm:rounded-xl dark:border-slate-800 border-slate-200 w-full max-h-64 sm:max-h-96 object-contain dark:bg-slate-950/70 bg-slate-50/70" />
+                <>
+                  <div className="flex justify-center rounded-lg sm:rounded-xl dark:bg-slate-950/70 bg-slate-50/70">
+                    <CropBox
+                      src={originalUrl}
+                      alt="Original preview"
+                      crop={options.crop}
+                      enabled={cropMode}
+                      onChange={(crop) => setOptions((prev) => ({ ...prev, crop }))}
+                    />
+                  </div>
+                  <div className="mt-2 flex items-center gap-3 text-xs">
+                    <button
+                      onClick={() => setCropMode((prev) => !prev)}
+                      className={cropMode ? "text-indigo-500 font-semibold" : "dark:text-slate-300 text-slate-700 hover:underline"}
+                    >
+                      {cropMode ? "Done cropping" : "Crop"}
+                    </button>
+                    {options.crop && (
+                      <>
+                        <span className="dark:text-slate-400 text-slate-600">
+                          {Math.round(options.crop.width)}% × {Math.round(options.crop.height)}%
+                        </span>
+                        <button
+                          onClick={() => setOptions((prev) => ({ ...prev, crop: undefined }))}
+                          className="dark:text-rose-300 text-rose-600 hover:underline"
+                        >
+                          Clear crop
+                        </button>
+                      </>
+                    )}
+                  </div>
+                  <InfoPanel inspection={inspection} loading={inspecting} retention={options.metadata.keep ?? "none"} />
+                </>
               ) : (
                 <div className="h-40 sm:h-48 rounded-lg sm:rounded-xl border border-dashed dark:border-slate-700 border-slate-300 dark:bg-slate-950/60 bg-slate-50/60 flex items-center justify-center dark:text-slate-500 text-slate-400 text-sm">
                   Add an image to see preview
@@ -328,26 +598,60 @@ export default function Home() {
                 <span className="text-xs dark:text-slate-400 text-slate-600">
                   {formatBytes(processedInfo.size)}{" "}
                   {processedInfo.width && processedInfo.height ? `• ${processedInfo.width}x${processedInfo.height}px` : ""}
+                  {processedUrl && compareMetrics
+                    ? ` • PSNR ${formatPsnr(compareMetrics.psnr)} • SSIM ${compareMetrics.ssim.toFixed(3)}`
+                    : processedInfo.qualityScore !== undefined
+                      ? ` • SSIM ${processedInfo.qualityScore.toFixed(3)}`
+                      : ""}
                 </span>
               </div>
-              {processedUrl ? (
+              {processedUrl && processedIsArchive ? (
+                <div className="h-40 sm:h-48 rounded-lg sm:rounded-xl border border-dashed dark:border-slate-700 border-slate-300 dark:bg-slate-950/60 bg-slate-50/60 flex items-center justify-center dark:text-slate-400 text-slate-600 text-sm text-center px-4">
+                  Responsive set ready: variants, manifest and picture.html are in the ZIP
+                </div>
+              ) : processedUrl ? (
                 <img src={processedUrl} alt="Processed preview" className="rounded-lg sm:rounded-xl dark:border-slate-800 border-slate-200 w-full max-h-64 sm:max-h-96 object-contain dark:bg-slate-950/70 bg-slate-50/70" />
               ) : (
                 <div className="h-40 sm:h-48 rounded-lg sm:rounded-xl border border-dashed dark:border-slate-700 border-slate-300 dark:bg-slate-950/60 bg-slate-50/60 flex items-center justify-center dark:text-slate-500 text-slate-400 text-sm">
                   Run processing to view result
                 </div>
               )}
+              {processedUrl && processedInfo.candidates && (
+                <ul className="mt-3 flex flex-wrap gap-2 text-xs">
+                  {processedInfo.candidates.map((candidate) => (
+                    <li
+                      key={candidate.format}
+                      className={`px-2 py-1 rounded-md border ${
+                        candidate.format === processedInfo.format
+                          ? "border-emerald-500 bg-emerald-500/15 dark:text-white text-slate-900"
+                          : "dark:border-slate-700 border-slate-300 dark:text-slate-400 text-slate-600"
+                      }`}
+                    >
+                      {candidate.format.toUpperCase()} {formatBytes(candidate.size)}
+                      {candidate.format === processedInfo.format ? " (chosen)" : ""}
+                    </li>
+                  ))}
+                </ul>
+              )}
               {processedUrl && (
                 <a
                   className="mt-3 inline-flex items-center justify-center w-full px-3 py-2 rounded-lg bg-emerald-500 hover:bg-emerald-600 text-white text-sm font-medium transition-colors"
                   href={processedUrl}
                   download
                 >
-                  Download processed image
+                  {processedIsArchive ? "Download responsive set (ZIP)" : "Download processed image"}
                 </a>
               )}
+              {processedUrl && processedInfo.report && <ReportPanel report={processedInfo.report} />}
             </div>
           </div>
+
+          {originalUrl && processedUrl && !processedIsArchive && (
+            <div className="rounded-xl sm:rounded-2xl dark:bg-slate-900/70 bg-white/70 dark:border-slate-800 border-slate-200 p-4 shadow-sm">
+              <h3 className="text-xs sm:text-sm font-semibold dark:text-white text-slate-900 mb-3">Compare</h3>
+              <CompareView originalUrl={originalUrl} processedUrl={processedUrl} onMetrics={setCompareMetrics} />
+            </div>
+          )}
         </section>
 
         <section className="space-y-4">
@@ -384,6 +688,19 @@ export default function Home() {
               {presetDescription && (
                 <p className="mt-2 text-xs dark:text-amber-300/80 text-amber-700">Preset note: {presetDescription}</p>
               )}
+              <div className="mt-2 flex items-center gap-3 text-xs">
+                <button onClick={saveAsPreset} className="dark:text-indigo-300 text-indigo-600 hover:underline">
+                  Save current settings as preset
+                </button>
+                {presets.find((p) => p.id === options.presetId)?.custom && (
+                  <button
+                    onClick={() => deletePreset(options.presetId)}
+                    className="dark:text-rose-300 text-rose-600 hover:underline"
+                  >
+                    Delete preset
+                  </button>
+                )}
+              </div>
             </div>
 
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
@@ -394,19 +711,38 @@ export default function Home() {
                   value={options.format}
                   onChange={(e) => handleOptionChange("format", e.target.value)}
                 >
-                  {["jpeg", "png", "webp", "gif", "svg", "avif", "tiff"].map((fmt) => (
-                    <option key={fmt} value={fmt}>
-                      {fmt.toUpperCase()}
+                  {OUTPUT_FORMATS.map((fmt) => (
+                    <option key={fmt} value={fmt} disabled={fmt === "svg" && !sourceIsSvg}>
+                      {fmt === "svg" ? "SVG (optimize SVG sources)" : fmt === "auto" ? "Auto (smallest)" : fmt.toUpperCase()}
                     </option>
                   ))}
                 </select>
               </div>
+              {sourceIsSvg && options.format !== "svg" && (
+                <div className="flex flex-col space-y-1">
+                  <label className="text-xs sm:text-sm dark:text-slate-300 text-slate-700">Render density (DPI)</label>
+                  <input
+                    type="number"
+                    min={limits.svg.fields.density.min}
+                    max={limits.svg.fields.density.max}
+                    placeholder="Auto (sharp at the output size)"
+                    className="dark:bg-slate-800 bg-white dark:border-slate-700 border-slate-300 rounded-lg px-3 py-2 text-xs sm:text-sm dark:text-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    value={options.svg?.density ?? ""}
+                    onChange={(e) =>
+                      setOptions((prev) => ({
+                        ...prev,
+                        svg: e.target.value ? { ...prev.svg, density: Number(e.target.value) } : undefined,
+                      }))
+                    }
+                  />
+                </div>
+              )}
               <div className="flex flex-col space-y-1">
                 <label className="text-xs sm:text-sm dark:text-slate-300 text-slate-700">Quality</label>
                 <input
                   type="range"
-                  min={10}
-                  max={100}
+                  min={limits.quality.min}
+                  max={limits.quality.max}
                   value={options.quality}
                   onChange={(e) => handleOptionChange("quality", Number(e.target.value))}
                   className="accent-indigo-500"
@@ -415,28 +751,81 @@ export default function Home() {
               </div>
             </div>
 
+            <LosslessControls
+              value={options.lossless}
+              format={options.format || inspection?.format || ""}
+              quality={options.quality}
+              onChange={(lossless) => setOptions((prev) => ({ ...prev, lossless }))}
+            />
+
+            <EncoderControls
+              value={options.encoder}
+              format={options.format || inspection?.format || ""}
+              onChange={(encoder) => setOptions((prev) => ({ ...prev, encoder }))}
+            />
+
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
               <div className="flex flex-col space-y-1">
                 <label className="text-xs sm:text-sm dark:text-slate-300 text-slate-700">Target size (KB)</label>
                 <input
                   type="number"
-                  min={50}
+                  min={limits.targetSizeKB.min}
+                  max={limits.targetSizeKB.max}
                   className="dark:bg-slate-800 bg-white dark:border-slate-700 border-slate-300 rounded-lg px-3 py-2 text-xs sm:text-sm dark:text-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                  value={options.targetSizeKB}
-                  onChange={(e) => handleOptionChange("targetSizeKB", Number(e.target.value))}
+                  placeholder="off"
+                  value={options.targetSizeKB ?? ""}
+                  onChange={(e) =>
+                    setOptions((prev) => ({ ...prev, targetSizeKB: e.target.value ? Number(e.target.value) : undefined }))
+                  }
                 />
-              </div>
-              <div className="flex flex-col space-y-1">
-                <label className="text-xs sm:text-sm dark:text-slate-300 text-slate-700">Strip metadata</label>
-                <div className="flex items-center gap-2">
+                <label
+                  className="flex items-center gap-2 text-xs dark:text-slate-400 text-slate-600"
+                  title="If the lowest quality is still too big, subsample chroma, raise encoder effort, switch format and downscale, then fail if the limit is still missed"
+                >
                   <input
                     type="checkbox"
-                    checked={options.stripMetadata}
-                    onChange={(e) => handleOptionChange("stripMetadata", e.target.checked)}
+                    checked={Boolean(options.sizeFallback)}
+                    onChange={(e) =>
+                      setOptions((prev) => ({ ...prev, sizeFallback: e.target.checked ? {} : undefined }))
+                    }
                     className="accent-indigo-500 h-4 w-4"
                   />
-                  <span className="text-xs sm:text-sm dark:text-slate-300 text-slate-700">Remove EXIF and other metadata</span>
-                </div>
+                  Hard limit (downscale or switch format if needed)
+                </label>
+              </div>
+              <MetadataControls
+                value={options.metadata}
+                format={options.format || inspection?.format || ""}
+                onChange={(metadata) => setOptions((prev) => ({ ...prev, metadata }))}
+              />
+            </div>
+
+            <ColourControls
+              value={options.colour}
+              format={options.format || inspection?.format || ""}
+              highBitDepth={inspection?.bitDepth === 16}
+              onChange={(colour) => setOptions((prev) => ({ ...prev, colour }))}
+            />
+
+            <div className="flex flex-col space-y-1">
+              <label className="text-xs sm:text-sm dark:text-slate-300 text-slate-700">Min perceptual quality (SSIM)</label>
+              <input
+                type="number"
+                min={limits.targetQualityScore.min}
+                max={limits.targetQualityScore.max}
+                step={0.005}
+                placeholder="off"
+                className="dark:bg-slate-800 bg-white dark:border-slate-700 border-slate-300 rounded-lg px-3 py-2 text-xs sm:text-sm dark:text-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                value={options.targetQualityScore ?? ""}
+                onChange={(e) =>
+                  setOptions((prev) => ({
+                    ...prev,
+                    targetQualityScore: e.target.value ? Number(e.target.value) : undefined,
+                  }))
+                }
+              />
+              <div className="text-xs dark:text-slate-400 text-slate-600">
+                Smallest output that stays at or above this score; the target size still acts as a cap.
               </div>
             </div>
 
@@ -445,7 +834,8 @@ export default function Home() {
                 <label className="text-xs sm:text-sm dark:text-slate-300 text-slate-700">Width (px)</label>
                 <input
                   type="number"
-                  min={1}
+                  min={limits.width.min}
+                  max={limits.width.max}
                   placeholder="auto"
                   className="dark:bg-slate-800 bg-white dark:border-slate-700 border-slate-300 rounded-lg px-3 py-2 text-xs sm:text-sm dark:text-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                   value={options.width ?? ""}
@@ -456,7 +846,8 @@ export default function Home() {
                 <label className="text-xs sm:text-sm dark:text-slate-300 text-slate-700">Height (px)</label>
                 <input
                   type="number"
-                  min={1}
+                  min={limits.height.min}
+                  max={limits.height.max}
                   placeholder="auto"
                   className="dark:bg-slate-800 bg-white dark:border-slate-700 border-slate-300 rounded-lg px-3 py-2 text-xs sm:text-sm dark:text-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                   value={options.height ?? ""}
@@ -465,6 +856,121 @@ export default function Home() {
               </div>
             </div>
 
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="flex flex-col space-y-1">
+                <label className="text-xs sm:text-sm dark:text-slate-300 text-slate-700">Fit</label>
+                <select
+                  className="dark:bg-slate-800 bg-white dark:border-slate-700 border-slate-300 rounded-lg px-3 py-2 text-xs sm:text-sm dark:text-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  value={options.fit}
+                  onChange={(e) => handleOptionChange("fit", e.target.value)}
+                >
+                  <option value="">Auto (follow aspect lock)</option>
+                  {FIT_MODES.map((mode) => (
+                    <option key={mode} value={mode}>
+                      {mode}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {options.fit === "cover" && (
+                <div className="flex flex-col space-y-1">
+                  <label className="text-xs sm:text-sm dark:text-slate-300 text-slate-700">Crop focus</label>
+                  <select
+                    className="dark:bg-slate-800 bg-white dark:border-slate-700 border-slate-300 rounded-lg px-3 py-2 text-xs sm:text-sm dark:text-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    value={options.position}
+                    onChange={(e) => handleOptionChange("position", e.target.value)}
+                  >
+                    {RESIZE_POSITIONS.map((position) => (
+                      <option key={position} value={position}>
+                        {position === "attention" || position === "entropy" ? `smart (${position})` : position}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {options.fit === "contain" && (
+                <p className="text-xs dark:text-slate-400 text-slate-600 self-end">Padding uses the background fill colour below.</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs sm:text-sm dark:text-slate-300 text-slate-700">Transform</label>
+              <div className="grid grid-cols-2 gap-2 text-xs sm:text-sm dark:text-slate-300 text-slate-700">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={options.autoOrient}
+                    onChange={(e) => handleOptionChange("autoOrient", e.target.checked)}
+                    className="accent-indigo-500 h-4 w-4"
+                  />
+                  Auto-orient (EXIF)
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={options.flipHorizontal}
+                    onChange={(e) => handleOptionChange("flipHorizontal", e.target.checked)}
+                    className="accent-indigo-500 h-4 w-4"
+                  />
+                  Flip horizontal
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={options.flipVertical}
+                    onChange={(e) => handleOptionChange("flipVertical", e.target.checked)}
+                    className="accent-indigo-500 h-4 w-4"
+                  />
+                  Flip vertical
+                </label>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="flex flex-col space-y-1">
+                  <span className="text-xs dark:text-slate-400 text-slate-600">Rotate (°)</span>
+                  <input
+                    type="number"
+                    min={limits.rotate.min}
+                    max={limits.rotate.max}
+                    className="dark:bg-slate-800 bg-white dark:border-slate-700 border-slate-300 rounded-lg px-3 py-2 text-xs sm:text-sm dark:text-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    value={options.rotate}
+                    onChange={(e) => handleOptionChange("rotate", Number(e.target.value))}
+                  />
+                </div>
+                <div className="flex flex-col space-y-1">
+                  <span className="text-xs dark:text-slate-400 text-slate-600">Background fill</span>
+                  <input
+                    type="color"
+                    value={options.background}
+                    onChange={(e) => handleOptionChange("background", e.target.value)}
+                    className="h-9 w-full rounded-lg dark:bg-slate-800 bg-white"
+                  />
+                </div>
+              </div>
+            </div>
+
+            {inspection && inspection.pages > 1 && (
+              <AnimationControls
+                value={options.animation}
+                frameCount={inspection.pages}
+                onChange={(animation) => setOptions((prev) => ({ ...prev, animation }))}
+              />
+            )}
+
+            {(options.format === "png" || options.format === "gif") && (
+              <PaletteControls
+                value={options.palette}
+                format={options.format}
+                onChange={(palette) => setOptions((prev) => ({ ...prev, palette }))}
+              />
+            )}
+
+            <WatermarkControls
+              value={options.watermark}
+              logo={watermarkLogo}
+              onChange={(watermark) => setOptions((prev) => ({ ...prev, watermark }))}
+              onLogoChange={setWatermarkLogo}
+            />
+
             <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
               <div className="flex items-center gap-2">
                 <input
@@ -475,15 +981,35 @@ export default function Home() {
                 />
                 <span className="text-xs sm:text-sm dark:text-slate-300 text-slate-700">Lock aspect ratio</span>
               </div>
-              <button
-                onClick={onProcess}
-                disabled={loading}
-                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-indigo-500 hover:bg-indigo-600 text-white text-xs sm:text-sm font-semibold shadow-sm disabled:opacity-60 transition-colors w-full sm:w-auto justify-center"
-              >
-                {loading ? "Processing..." : "Process Image"}
-              </button>
+              <div className="flex items-center gap-2 w-full sm:w-auto">
+                {job && (
+                  <button
+                    onClick={cancelJob}
+                    className="px-3 py-2 rounded-lg text-xs sm:text-sm dark:text-rose-300 text-rose-600 hover:underline"
+                  >
+                    Cancel
+                  </button>
+                )}
+                <button
+                  onClick={onProcess}
+                  disabled={loading}
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-indigo-500 hover:bg-indigo-600 text-white text-xs sm:text-sm font-semibold shadow-sm disabled:opacity-60 transition-colors w-full sm:w-auto justify-center"
+                >
+                  {loading ? (job ? describeJob(job) : "Processing...") : "Process Image"}
+                </button>
+              </div>
             </div>
             {error && <p className="text-xs sm:text-sm dark:text-amber-300 text-amber-700">{error}</p>}
+            {fieldErrors.length > 0 && (
+              <ul className="text-xs dark:text-amber-300/80 text-amber-700 list-disc pl-4 space-y-0.5">
+                {fieldErrors.map((fieldError) => (
+                  <li key={fieldError.field}>
+                    <span className="font-medium">{fieldError.field}</span> {fieldError.reason}
+                    {fieldError.allowed ? ` (allowed: ${fieldError.allowed})` : ""}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         </section>
       </main>
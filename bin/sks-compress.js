@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI through tsx, so it uses lib/ exactly as the web app does without a separate build.
+require("tsx/cjs");
+require("../cli/sks-compress.ts");
@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+// Same tsx loader as sks-compress, so the watch service shares lib/ with the web app.
+require("tsx/cjs");
+require("../cli/sks-watch.ts");
@@ -0,0 +1,194 @@
+import { readFileSync } from "fs";
+import { availableParallelism } from "os";
+import { parseArgs } from "util";
+
+export const DEFAULT_OUT_DIR = "compressed";
+export const DEFAULT_TEMPLATE = "{dir}/{name}.{ext}";
+
+export const USAGE = `Usage: sks-compress [options] <file|directory|glob>...
+
+Compresses images with the same pipeline as the web app and writes them to an output directory.
+
+Input
+  -r, --recursive           Include subdirectories of directory inputs
+Output
+  -o, --out <dir>           Output directory (default: ./${DEFAULT_OUT_DIR})
+  -n, --name <template>     Output path inside --out (default: "${DEFAULT_TEMPLATE}")
+                            Tokens: {name} {ext} {dir} {preset} {width} {height}
+Processing
+  -p, --preset <id>         Start from a built-in or custom preset
+  -f, --format <format>     jpeg, png, webp, gif, avif, tiff, svg or auto
+  -q, --quality <10-100>
+      --target-size <KB>    Aim for this size (quality search)
+      --hard-limit          Fail rather than exceed --target-size (size fallback ladder)
+      --min-ssim <0.5-1>    Smallest output that keeps this SSIM
+  -w, --width <px>
+      --height <px>
+      --fit <mode>          cover, contain, inside, outside or fill
+      --position <anchor>   Crop anchor for --fit cover, or entropy/attention
+      --metadata <keep>     none, icc, safe or all
+      --colour <space>      srgb, p3, keep or grayscale
+      --background <hex>    Fill for rotation and contain padding
+      --rotate <degrees>
+      --lossless            Lossless WebP, AVIF, PNG or TIFF
+      --no-auto-orient      Ignore EXIF orientation
+      --options <json|@file>  Any process options as JSON
+      --set <path=value>    Set one option, e.g. --set encoder.jpeg.progressive=false (repeatable)
+Run
+  -j, --jobs <n>            Files processed in parallel (default: CPU count)
+      --skip-unchanged      Skip files whose input and options match the previous run
+      --dry-run             Process but write nothing; the summary shows what would be written
+  -h, --help
+
+Exits with 1 when any file fails and 2 on invalid arguments or options.`;
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export interface CliConfig {
+  inputs: string[];
+  recursive: boolean;
+  outDir: string;
+  template: string;
+  rawOptions: Record<string, unknown>; // unvalidated; validated exactly like an API request
+  jobs: number;
+  skipUnchanged: boolean;
+  dryRun: boolean;
+  help: boolean;
+}
+
+// Flags that map straight onto a (possibly nested) process option.
+const OPTION_FLAGS: Record<string, string> = {
+  preset: "presetId",
+  format: "format",
+  quality: "quality",
+  "target-size": "targetSizeKB",
+  "min-ssim": "targetQualityScore",
+  width: "width",
+  height: "height",
+  fit: "fit",
+  position: "position",
+  metadata: "metadata.keep",
+  colour: "colour.space",
+  background: "background",
+  rotate: "rotate",
+};
+
+const setPath = (target: Record<string, unknown>, dotted: string, value: unknown) => {
+  const keys = dotted.split(".");
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    const child = node[key];
+    node = (node[key] = child && typeof child === "object" && !Array.isArray(child) ? child : {}) as Record<string, unknown>;
+  }
+  node[keys[keys.length - 1]] = value;
+};
+
+// --set values are JSON when they parse as JSON (numbers, booleans, arrays), strings otherwise.
+const parseValue = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+};
+
+const readOptionsJson = (raw: string): Record<string, unknown> => {
+  let text = raw;
+  if (raw.startsWith("@")) {
+    try {
+      text = readFileSync(raw.slice(1), "utf8");
+    } catch {
+      throw new UsageError(`Cannot read options file ${raw.slice(1)}`);
+    }
+  }
+  try {
+    const parsed = JSON.parse(text);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error();
+    return parsed;
+  } catch {
+    throw new UsageError("--options must be a JSON object or @path to one");
+  }
+};
+
+const positiveInteger = (raw: string, flag: string) => {
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) throw new UsageError(`${flag} must be a positive integer`);
+  return value;
+};
+
+/** Parses argv (without the node and script entries). Options are layered: --options, flags, then --set. */
+export const parseCliArgs = (argv: string[]): CliConfig => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        recursive: { type: "boolean", short: "r" },
+        out: { type: "string", short: "o" },
+        name: { type: "string", short: "n" },
+        preset: { type: "string", short: "p" },
+        format: { type: "string", short: "f" },
+        quality: { type: "string", short: "q" },
+        "target-size": { type: "string" },
+        "hard-limit": { type: "boolean" },
+        "min-ssim": { type: "string" },
+        width: { type: "string", short: "w" },
+        height: { type: "string" },
+        fit: { type: "string" },
+        position: { type: "string" },
+        metadata: { type: "string" },
+        colour: { type: "string" },
+        background: { type: "string" },
+        rotate: { type: "string" },
+        lossless: { type: "boolean" },
+        "no-auto-orient": { type: "boolean" },
+        options: { type: "string" },
+        set: { type: "string", multiple: true },
+        jobs: { type: "string", short: "j" },
+        "skip-unchanged": { type: "boolean" },
+        "dry-run": { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  const { values, positionals } = parsed;
+
+  const rawOptions = values.options ? readOptionsJson(values.options) : {};
+  for (const [flag, option] of Object.entries(OPTION_FLAGS)) {
+    const value = values[flag as keyof typeof values];
+    if (typeof value === "string") setPath(rawOptions, option, value);
+  }
+  if (values["hard-limit"]) rawOptions.sizeFallback = rawOptions.sizeFallback ?? {};
+  if (values.lossless) rawOptions.lossless = rawOptions.lossless ?? {};
+  if (values["no-auto-orient"]) rawOptions.autoOrient = false;
+  for (const assignment of values.set ?? []) {
+    const separator = assignment.indexOf("=");
+    if (separator < 1) throw new UsageError(`--set expects path=value, got "${assignment}"`);
+    setPath(rawOptions, assignment.slice(0, separator), parseValue(assignment.slice(separator + 1)));
+  }
+
+  const help = Boolean(values.help);
+  if (!help && positionals.length === 0) {
+    throw new UsageError("No input files, directories or globs given");
+  }
+
+  return {
+    inputs: positionals,
+    recursive: Boolean(values.recursive),
+    outDir: values.out ?? DEFAULT_OUT_DIR,
+    template: values.name ?? DEFAULT_TEMPLATE,
+    rawOptions,
+    jobs: values.jobs ? positiveInteger(values.jobs, "--jobs") : availableParallelism(),
+    skipUnchanged: Boolean(values["skip-unchanged"]),
+    dryRun: Boolean(values["dry-run"]),
+    help,
+  };
+};
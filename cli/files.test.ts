@@ -0,0 +1,33 @@
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+import { globToRegExp } from "./files";
+
+const matches = (glob: string, paths: string[]) => paths.filter((file) => globToRegExp(glob).test(file));
+
+describe("globToRegExp", () => {
+  it("keeps * and ? within one directory", () => {
+    assert.deepEqual(matches("*.jpg", ["a.jpg", "b.png", "dir/c.jpg"]), ["a.jpg"]);
+    assert.deepEqual(matches("img-?.png", ["img-1.png", "img-10.png", "img-/.png"]), ["img-1.png"]);
+  });
+
+  it("matches zero or more directories with **/", () => {
+    assert.deepEqual(matches("**/*.png", ["a.png", "x/a.png", "x/y/a.png", "a.jpg"]), ["a.png", "x/a.png", "x/y/a.png"]);
+    assert.deepEqual(matches("shots/**", ["shots/a.png", "shots/x/b.png", "other/a.png"]), ["shots/a.png", "shots/x/b.png"]);
+  });
+
+  it("expands braces and character classes", () => {
+    assert.deepEqual(matches("*.{jpg,jpeg}", ["a.jpg", "b.jpeg", "c.png"]), ["a.jpg", "b.jpeg"]);
+    assert.deepEqual(matches("[ab]*.png", ["a1.png", "b2.png", "c3.png"]), ["a1.png", "b2.png"]);
+    assert.deepEqual(matches("[!ab]*.png", ["a1.png", "c3.png"]), ["c3.png"]);
+  });
+
+  it("treats regular expression characters literally", () => {
+    assert.deepEqual(matches("photo (1).jpg", ["photo (1).jpg", "photo 1.jpg"]), ["photo (1).jpg"]);
+    assert.deepEqual(matches("a+b.png", ["a+b.png", "aab.png"]), ["a+b.png"]);
+    assert.deepEqual(matches("x.jpg", ["x.jpg", "xxjpg"]), ["x.jpg"]);
+  });
+
+  it("leaves an unclosed bracket as a literal", () => {
+    assert.deepEqual(matches("[a.png", ["[a.png", "a.png"]), ["[a.png"]);
+  });
+});
@@ -0,0 +1,111 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Extensions picked up from directories and globs; named files are always taken as given.
+const IMAGE_EXTENSIONS = new Set([".jpg", ".jpeg", ".png", ".webp", ".gif", ".avif", ".tif", ".tiff", ".svg", ".heic", ".heif"]);
+
+const GLOB_CHARS = /[*?[{]/;
+
+export interface InputFile {
+  path: string; // absolute
+  relativeDir: string; // below the directory or glob base it was found in, "" for named files
+}
+
+const isImage = (file: string) => IMAGE_EXTENSIONS.has(path.extname(file).toLowerCase());
+
+/** Converts a glob (`*`, `?`, `**`, `{a,b}`, `[abc]`) to a RegExp over `/`-separated relative paths. */
+export const globToRegExp = (glob: string): RegExp => {
+  let source = "";
+  let braces = 0;
+  for (let i = 0; i < glob.length; i += 1) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" matches zero or more whole directories; a trailing "**" matches everything below.
+      const slash = glob[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        source += `[${glob.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`;
+        i = end;
+      }
+    } else if (char === "{") {
+      braces += 1;
+      source += "(?:";
+    } else if (char === "}" && braces > 0) {
+      braces -= 1;
+      source += ")";
+    } else if (char === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const walk = async (dir: string, recursive: boolean, maxDepth = Infinity, depth = 1): Promise<string[]> => {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (recursive && depth < maxDepth && !entry.name.startsWith(".")) {
+        files.push(...(await walk(full, recursive, maxDepth, depth + 1)));
+      }
+    } else if (entry.isFile()) {
+      files.push(full);
+    }
+  }
+  return files;
+};
+
+const fromGlob = async (pattern: string): Promise<InputFile[]> => {
+  const segments = pattern.split(/[\\/]/);
+  const firstGlob = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+  const base = path.resolve(segments.slice(0, firstGlob).join("/") || ".");
+  const rest = segments.slice(firstGlob);
+  const matcher = globToRegExp(rest.join("/"));
+  const maxDepth = rest.some((segment) => segment.includes("**")) ? Infinity : rest.length;
+
+  const files = await walk(base, true, maxDepth).catch(() => []);
+  return files
+    .map((file) => path.relative(base, file).split(path.sep).join("/"))
+    .filter((relative) => matcher.test(relative) && isImage(relative))
+    .map((relative) => ({ path: path.join(base, relative), relativeDir: path.posix.dirname(relative).replace(/^\.$/, "") }));
+};
+
+/**
+ * Expands files, directories and globs into a de-duplicated list of images. Directories are read
+ * one level deep unless `recursive`; globs always search as deep as their pattern reaches.
+ */
+export const expandInputs = async (inputs: string[], recursive: boolean): Promise<InputFile[]> => {
+  const found: InputFile[] = [];
+  for (const input of inputs) {
+    const stat = await fs.stat(input).catch(() => null);
+    if (stat?.isDirectory()) {
+      const base = path.resolve(input);
+      for (const file of await walk(base, recursive)) {
+        if (isImage(file)) {
+          found.push({ path: file, relativeDir: path.relative(base, path.dirname(file)).split(path.sep).join("/") });
+        }
+      }
+    } else if (stat?.isFile()) {
+      found.push({ path: path.resolve(input), relativeDir: "" });
+    } else if (GLOB_CHARS.test(input)) {
+      found.push(...(await fromGlob(input)));
+    } else {
+      throw new Error(`No such file or directory: ${input}`);
+    }
+  }
+
+  const seen = new Set<string>();
+  return found.filter((file) => !seen.has(file.path) && seen.add(file.path));
+};
@@ -0,0 +1,20 @@
+import { validateProcessOptions } from "../lib/optionsSchema";
+import { listPresets, resolvePresetOptions } from "../lib/presets";
+import { ProcessOptions } from "../lib/types";
+import { UsageError } from "./args";
+
+// Validated and preset-resolved exactly as POST /api/process does, so outputs match the web app.
+export const resolveOptions = async (raw: Record<string, unknown>): Promise<ProcessOptions> => {
+  const parsed = validateProcessOptions(raw);
+  if (parsed.presetId) {
+    const presets = await listPresets();
+    if (!presets.some((preset) => preset.id === parsed.presetId)) {
+      throw new UsageError(`Unknown preset "${parsed.presetId}". Available: ${presets.map(({ id }) => id).join(", ")}`);
+    }
+  }
+  const options = await resolvePresetOptions(parsed.presetId, parsed);
+  if (options.responsive) {
+    throw new UsageError("Responsive sets are not supported by the CLI; use POST /api/process");
+  }
+  return options;
+};
@@ -0,0 +1,54 @@
+import path from "path";
+import { ProcessOptions, ProcessResult } from "../lib/types";
+import { UsageError } from "./args";
+import { InputFile } from "./files";
+
+const TEMPLATE_TOKENS = ["name", "ext", "dir", "preset", "width", "height"];
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+};
+
+export const formatSaved = (input: number, output: number) =>
+  input > 0 ? `${(((input - output) / input) * 100).toFixed(1)}%` : "—";
+
+/** Rejects unknown `{token}`s up front, before any file is processed. `label` names the setting in the error. */
+export const checkTemplate = (template: string, label = "--name") => {
+  const unknown = Array.from(template.matchAll(/\{(\w*)\}/g), ([, token]) => token).filter(
+    (token) => !TEMPLATE_TOKENS.includes(token)
+  );
+  if (unknown.length > 0) {
+    throw new UsageError(`Unknown ${label} token(s) ${unknown.map((token) => `{${token}}`).join(", ")}`);
+  }
+};
+
+/** Fills in an output name template; the result is relative to the output directory. */
+export const renderTemplate = (template: string, file: InputFile, result: ProcessResult, options: ProcessOptions) => {
+  const tokens: Record<string, string> = {
+    name: path.parse(file.path).name,
+    ext: result.info.format,
+    dir: file.relativeDir,
+    preset: options.presetId ?? "custom",
+    width: String(result.info.width ?? ""),
+    height: String(result.info.height ?? ""),
+  };
+  const rendered = path.normalize(template.replace(/\{(\w+)\}/g, (_, token: string) => tokens[token]));
+  return rendered.replace(/^[/\\]+/, "");
+};
+
+/** Resolves `relative` inside `outDir`, refusing anything that escapes it. */
+export const resolveInside = (outDir: string, relative: string, label: string) => {
+  const target = path.resolve(outDir, relative);
+  if (!target.startsWith(`${outDir}${path.sep}`)) {
+    throw new Error(`Output path ${relative} is outside ${label}`);
+  }
+  return target;
+};
+
+/** `photo.webp` → `photo-2.webp`, used to keep clashing outputs apart. */
+export const numberedPath = (relative: string, n: number) => {
+  const parsed = path.parse(relative);
+  return path.join(parsed.dir, `${parsed.name}-${n}${parsed.ext}`);
+};
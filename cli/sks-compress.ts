@@ -0,0 +1,176 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { mapWithConcurrency } from "../lib/concurrency";
+import { processImage } from "../lib/imageProcessor";
+import { cacheKeyFor } from "../lib/resultCache";
+import { ValidationError } from "../lib/validation";
+import { parseCliArgs, UsageError, USAGE } from "./args";
+import { expandInputs, InputFile } from "./files";
+import { resolveOptions } from "./options";
+import { checkTemplate, formatBytes, formatSaved, numberedPath, renderTemplate, resolveInside } from "./output";
+
+// Remembers what each source produced, so --skip-unchanged survives between runs.
+const MANIFEST_FILE = ".sks-compress.json";
+
+interface RunManifest {
+  version: 1;
+  template: string;
+  files: Record<string, { key: string; output: string }>; // by absolute source path
+}
+
+type Outcome = {
+  source: string; // as shown to the user, relative to the working directory
+  status: "written" | "unchanged" | "dry run" | "failed";
+  inputBytes: number;
+  outputBytes?: number;
+  output?: string; // relative to the output directory
+  error?: string;
+};
+
+const readManifest = async (outDir: string, template: string): Promise<RunManifest> => {
+  try {
+    const manifest = JSON.parse(await fs.readFile(path.join(outDir, MANIFEST_FILE), "utf8")) as RunManifest;
+    // A different template means different output paths, so nothing from that run can be reused.
+    if (manifest.version === 1 && manifest.template === template) return manifest;
+  } catch {
+    // Missing or unreadable: start fresh.
+  }
+  return { version: 1, template, files: {} };
+};
+
+const printSummary = (outcomes: Outcome[]) => {
+  const rows = outcomes.map((outcome) => [
+    outcome.source,
+    formatBytes(outcome.inputBytes),
+    outcome.outputBytes !== undefined ? formatBytes(outcome.outputBytes) : "—",
+    outcome.outputBytes !== undefined ? formatSaved(outcome.inputBytes, outcome.outputBytes) : "—",
+    outcome.status === "failed" ? `failed: ${outcome.error}` : outcome.status,
+  ]);
+  const done = outcomes.filter((outcome) => outcome.outputBytes !== undefined);
+  const inputTotal = done.reduce((sum, outcome) => sum + outcome.inputBytes, 0);
+  const outputTotal = done.reduce((sum, outcome) => sum + (outcome.outputBytes ?? 0), 0);
+  const failed = outcomes.length - done.length;
+  rows.push([
+    `Total (${outcomes.length} file${outcomes.length === 1 ? "" : "s"}${failed ? `, ${failed} failed` : ""})`,
+    formatBytes(inputTotal),
+    formatBytes(outputTotal),
+    formatSaved(inputTotal, outputTotal),
+    "",
+  ]);
+
+  const header = ["File", "Input", "Output", "Saved", "Status"];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  // Byte columns are right-aligned so sizes line up.
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, column) => (column >= 1 && column <= 3 ? cell.padStart(widths[column]) : cell.padEnd(widths[column])))
+      .join("  ")
+      .trimEnd();
+  console.log(line(header));
+  console.log(widths.map((width) => "-".repeat(width)).join("  "));
+  rows.slice(0, -1).forEach((row) => console.log(line(row)));
+  console.log(widths.map((width) => "-".repeat(width)).join("  "));
+  console.log(line(rows[rows.length - 1]));
+};
+
+const run = async (argv: string[]): Promise<number> => {
+  const config = parseCliArgs(argv);
+  if (config.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  checkTemplate(config.template);
+  const options = await resolveOptions(config.rawOptions);
+
+  const outDir = path.resolve(config.outDir);
+  // Earlier outputs inside an input directory must not be compressed again.
+  const files = (await expandInputs(config.inputs, config.recursive).catch((error) => {
+    throw new UsageError(error.message);
+  })).filter((file) => !file.path.startsWith(`${outDir}${path.sep}`));
+  if (files.length === 0) {
+    throw new UsageError("No images found in the given inputs");
+  }
+
+  const manifest = await readManifest(outDir, config.template);
+  const taken = new Set<string>();
+  const reserve = (relative: string) => {
+    let candidate = relative;
+    for (let n = 1; taken.has(candidate); n += 1) {
+      candidate = numberedPath(relative, n);
+    }
+    taken.add(candidate);
+    return candidate;
+  };
+
+  let finished = 0;
+  const processFile = async (file: InputFile): Promise<Outcome> => {
+    const source = path.relative(process.cwd(), file.path) || file.path;
+    const buffer = await fs.readFile(file.path);
+    const key = cacheKeyFor(buffer, options);
+
+    const previous = manifest.files[file.path];
+    if (config.skipUnchanged && previous?.key === key) {
+      const stat = await fs.stat(path.join(outDir, previous.output)).catch(() => null);
+      if (stat) {
+        taken.add(previous.output);
+        return { source, status: "unchanged", inputBytes: buffer.length, outputBytes: stat.size, output: previous.output };
+      }
+    }
+
+    const result = await processImage(buffer, options);
+    const relative = reserve(renderTemplate(config.template, file, result, options));
+    const target = resolveInside(outDir, relative, config.outDir);
+    if (target === file.path) {
+      throw new Error("Output would overwrite the input");
+    }
+
+    if (!config.dryRun) {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, result.buffer);
+      manifest.files[file.path] = { key, output: relative };
+    }
+    return { source, status: config.dryRun ? "dry run" : "written", inputBytes: buffer.length, outputBytes: result.info.size, output: relative };
+  };
+
+  const outcomes = await mapWithConcurrency(files, config.jobs, async (file) => {
+    const outcome = await processFile(file).catch(
+      async (error): Promise<Outcome> => ({
+        source: path.relative(process.cwd(), file.path) || file.path,
+        status: "failed",
+        inputBytes: (await fs.stat(file.path).catch(() => null))?.size ?? 0,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    );
+    finished += 1;
+    const arrow = outcome.output ? ` → ${path.join(config.outDir, outcome.output)}` : "";
+    console.error(`[${finished}/${files.length}] ${outcome.status} ${outcome.source}${arrow}`);
+    return outcome;
+  });
+
+  if (!config.dryRun) {
+    await fs.mkdir(outDir, { recursive: true });
+    await fs.writeFile(path.join(outDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+  }
+  printSummary(outcomes);
+  return outcomes.some((outcome) => outcome.status === "failed") ? 1 : 0;
+};
+
+run(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    if (error instanceof UsageError) {
+      console.error(`sks-compress: ${error.message}\nRun sks-compress --help for usage.`);
+      process.exitCode = 2;
+    } else if (error instanceof ValidationError) {
+      console.error("sks-compress: invalid options");
+      error.errors.forEach(({ field, reason, allowed }) =>
+        console.error(`  ${field} ${reason}${allowed ? ` (allowed: ${allowed})` : ""}`)
+      );
+      process.exitCode = 2;
+    } else {
+      console.error(error);
+      process.exitCode = 1;
+    }
+  });
@@ -0,0 +1,66 @@
+import { parseArgs } from "util";
+import { ValidationError } from "../lib/validation";
+import { UsageError } from "./args";
+import { createHotFolderWatcher } from "./watcher";
+import { DEFAULT_CONFIG_FILE, loadWatchConfig } from "./watchConfig";
+
+const USAGE = `Usage: sks-watch [options]
+
+Watches hot folders and compresses every image dropped into them, with a preset per folder.
+
+  -c, --config <file>  Watch config (default: ./${DEFAULT_CONFIG_FILE})
+      --once           Process what is in the folders now, then exit
+  -h, --help
+
+Stops on SIGINT or SIGTERM after the files in progress are written.`;
+
+const run = async (argv: string[]) => {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args: argv,
+      options: {
+        config: { type: "string", short: "c" },
+        once: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    }));
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const config = await loadWatchConfig(values.config ?? DEFAULT_CONFIG_FILE);
+  const watcher = createHotFolderWatcher(config);
+  const controller = new AbortController();
+  const stop = (signal: NodeJS.Signals) => {
+    if (controller.signal.aborted) return;
+    controller.abort();
+    // The line reaches stdout before the log file; a failed append must not crash the shutdown.
+    watcher.log(`${signal} received; stopping after the files in progress`).catch(() => undefined);
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  await watcher.run(controller.signal, Boolean(values.once));
+  await watcher.log("stopped");
+};
+
+run(process.argv.slice(2)).catch((error) => {
+  if (error instanceof UsageError) {
+    console.error(`sks-watch: ${error.message}\nRun sks-watch --help for usage.`);
+    process.exitCode = 2;
+  } else if (error instanceof ValidationError) {
+    console.error("sks-watch: invalid watch config");
+    error.errors.forEach(({ field, reason, allowed }) =>
+      console.error(`  ${field} ${reason}${allowed ? ` (allowed: ${allowed})` : ""}`)
+    );
+    process.exitCode = 2;
+  } else {
+    console.error(error);
+    process.exitCode = 1;
+  }
+});
@@ -0,0 +1,149 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { processOptionsSchema } from "../lib/optionsSchema";
+import { ProcessOptions } from "../lib/types";
+import { ObjectSchema, validate } from "../lib/validation";
+import { DEFAULT_TEMPLATE, UsageError } from "./args";
+import { resolveOptions } from "./options";
+import { checkTemplate } from "./output";
+
+export const DEFAULT_CONFIG_FILE = "sks-watch.json";
+
+const DEFAULT_STATE_FILE = path.join("data", "watch", "state.json");
+const DEFAULT_LOG_FILE = path.join("data", "watch", "watch.log");
+const DEFAULT_SETTLE_SECONDS = 2;
+const DEFAULT_POLL_SECONDS = 1;
+const DEFAULT_JOBS = 2;
+
+const pathField = { type: "string", maxLength: 4096 } as const;
+
+const folderSchema = {
+  type: "object",
+  fields: {
+    input: pathField,
+    output: pathField,
+    done: pathField,
+    failed: pathField,
+    preset: { type: "string", maxLength: 64 },
+    options: processOptionsSchema,
+    name: { type: "string", maxLength: 1024 },
+    recursive: { type: "boolean" },
+  },
+  required: ["input", "output"],
+} satisfies ObjectSchema;
+
+const watchConfigSchema = {
+  type: "object",
+  fields: {
+    folders: { type: "array", items: folderSchema, minItems: 1, maxItems: 100 },
+    state: pathField,
+    log: pathField,
+    settleSeconds: { type: "number", min: 0.1, max: 3600 },
+    pollSeconds: { type: "number", min: 0.1, max: 3600 },
+    jobs: { type: "number", min: 1, max: 64, integer: true },
+  },
+  required: ["folders"],
+} satisfies ObjectSchema;
+
+interface RawFolder {
+  input: string;
+  output: string;
+  done?: string;
+  failed?: string;
+  preset?: string;
+  options?: ProcessOptions;
+  name?: string;
+  recursive?: boolean;
+}
+
+interface RawConfig {
+  folders: RawFolder[];
+  state?: string;
+  log?: string;
+  settleSeconds?: number;
+  pollSeconds?: number;
+  jobs?: number;
+}
+
+export interface WatchFolder {
+  input: string; // absolute, like every path below
+  output: string;
+  done?: string; // originals are left in place when unset
+  failed?: string;
+  template: string;
+  recursive: boolean;
+  options: ProcessOptions; // validated and preset-resolved
+}
+
+export interface WatchConfig {
+  folders: WatchFolder[];
+  stateFile: string;
+  logFile: string;
+  settleMs: number; // how long a file's size and mtime must hold still before it is read
+  pollMs: number;
+  jobs: number;
+}
+
+const isWithin = (dir: string, target: string) => target === dir || target.startsWith(`${dir}${path.sep}`);
+
+const resolveFolder = async (raw: RawFolder, index: number, base: string): Promise<WatchFolder> => {
+  const label = `folders[${index}]`;
+  const template = raw.name ?? DEFAULT_TEMPLATE;
+  checkTemplate(template, `${label}.name`);
+  const folder: WatchFolder = {
+    input: path.resolve(base, raw.input),
+    output: path.resolve(base, raw.output),
+    done: raw.done ? path.resolve(base, raw.done) : undefined,
+    failed: raw.failed ? path.resolve(base, raw.failed) : undefined,
+    template,
+    recursive: Boolean(raw.recursive),
+    options: await resolveOptions({ ...raw.options, presetId: raw.preset ?? raw.options?.presetId }),
+  };
+  for (const key of ["output", "done", "failed"] as const) {
+    if (folder[key] && isWithin(folder[key], folder.input)) {
+      throw new UsageError(`${label}.${key} must not be the input folder or contain it`);
+    }
+  }
+  return folder;
+};
+
+/**
+ * Reads and validates a watch config. Relative paths are resolved against the config file's
+ * directory, so the service behaves the same whatever directory it is started from.
+ */
+export const loadWatchConfig = async (file: string): Promise<WatchConfig> => {
+  let text: string;
+  try {
+    text = await fs.readFile(file, "utf8");
+  } catch {
+    throw new UsageError(`Cannot read watch config ${file}`);
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new UsageError(`Watch config ${file} is not valid JSON`);
+  }
+
+  const raw = validate<RawConfig>(watchConfigSchema, json);
+  const base = path.dirname(path.resolve(file));
+  const folders: WatchFolder[] = [];
+  for (const [index, folder] of raw.folders.entries()) {
+    folders.push(await resolveFolder(folder, index, base));
+  }
+  folders.forEach((folder, index) => {
+    const clash = folders.findIndex((other, otherIndex) => otherIndex !== index && isWithin(other.input, folder.input));
+    if (clash !== -1) {
+      throw new UsageError(`folders[${index}].input overlaps folders[${clash}].input`);
+    }
+  });
+
+  return {
+    folders,
+    stateFile: path.resolve(base, raw.state ?? DEFAULT_STATE_FILE),
+    logFile: path.resolve(base, raw.log ?? DEFAULT_LOG_FILE),
+    settleMs: (raw.settleSeconds ?? DEFAULT_SETTLE_SECONDS) * 1000,
+    pollMs: (raw.pollSeconds ?? DEFAULT_POLL_SECONDS) * 1000,
+    jobs: raw.jobs ?? DEFAULT_JOBS,
+  };
+};
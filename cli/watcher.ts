@@ -0,0 +1,257 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { mapWithConcurrency } from "../lib/concurrency";
+import { processImage } from "../lib/imageProcessor";
+import { cacheKeyFor } from "../lib/resultCache";
+import { expandInputs, InputFile } from "./files";
+import { formatBytes, formatSaved, numberedPath, renderTemplate, resolveInside } from "./output";
+import { WatchConfig, WatchFolder } from "./watchConfig";
+
+// A source is recognised by path plus size and mtime; the key catches files that were only touched.
+interface HandledFile {
+  size: number;
+  mtimeMs: number;
+  key: string;
+  status: "processed" | "failed";
+  output?: string; // absolute
+  error?: string;
+  at: string;
+}
+
+interface WatchState {
+  version: 1;
+  files: Record<string, HandledFile>; // by absolute source path, until the original is moved away
+}
+
+interface Candidate {
+  file: InputFile;
+  folder: WatchFolder;
+  size: number;
+  mtimeMs: number;
+}
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done, { once: true });
+  });
+
+const isWithin = (dir: string | undefined, target: string) => Boolean(dir) && target.startsWith(`${dir}${path.sep}`);
+
+// Rename is atomic on one filesystem; across devices fall back to copy and delete.
+const moveFile = async (from: string, to: string) => {
+  try {
+    await fs.rename(from, to);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error;
+    await fs.copyFile(from, to);
+    await fs.rm(from);
+  }
+};
+
+const exists = (file: string) =>
+  fs.access(file).then(
+    () => true,
+    () => false
+  );
+
+const moveTarget = (folder: WatchFolder, status: HandledFile["status"]) =>
+  status === "processed" ? folder.done : folder.failed;
+
+const display = (file: string) => path.relative(process.cwd(), file) || file;
+
+/** Polls the configured folders, processing each settled image once and remembering it across restarts. */
+export const createHotFolderWatcher = (config: WatchConfig) => {
+  let state: WatchState = { version: 1, files: {} };
+  let saving: Promise<unknown> = Promise.resolve();
+  // Files seen but not yet settled: first sighting of their current size and mtime.
+  const settling = new Map<string, { size: number; mtimeMs: number; since: number }>();
+  // Output paths handed out in this process, so concurrent files never pick the same name.
+  const claimed = new Set<string>();
+
+  const log = async (message: string) => {
+    const line = `${new Date().toISOString()} ${message}`;
+    console.log(line);
+    await fs.mkdir(path.dirname(config.logFile), { recursive: true });
+    await fs.appendFile(config.logFile, `${line}\n`);
+  };
+
+  // Saves are chained and written via rename, so the state file is never half-written.
+  const save = () => {
+    const run = saving.then(async () => {
+      const file = config.stateFile;
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      const temp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(temp, JSON.stringify(state, null, 2));
+      await fs.rename(temp, file);
+    });
+    saving = run.catch(() => undefined);
+    return run;
+  };
+
+  const record = async (source: string, handled: HandledFile) => {
+    state.files[source] = handled;
+    await save();
+  };
+
+  const start = async () => {
+    for (const folder of config.folders) {
+      for (const dir of [folder.input, folder.output, folder.done, folder.failed]) {
+        if (dir) await fs.mkdir(dir, { recursive: true });
+      }
+    }
+    try {
+      const saved = JSON.parse(await fs.readFile(config.stateFile, "utf8")) as WatchState;
+      if (saved.version === 1 && saved.files) state = saved;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        await log(`state file ${config.stateFile} is unreadable; starting with an empty history`);
+      }
+    }
+    await log(`watching ${config.folders.map((folder) => display(folder.input)).join(", ")}`);
+  };
+
+  const moveOriginal = async (file: InputFile, folder: WatchFolder, status: HandledFile["status"]) => {
+    const dir = moveTarget(folder, status);
+    if (!dir) return;
+    const relative = path.join(file.relativeDir, path.basename(file.path));
+    let target = path.join(dir, relative);
+    for (let n = 1; await exists(target); n += 1) {
+      target = path.join(dir, numberedPath(relative, n));
+    }
+    try {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await moveFile(file.path, target);
+      // Once the original is gone there is nothing left to recognise, so the record can go too.
+      delete state.files[file.path];
+      await save();
+      await log(`moved ${display(file.path)} → ${display(target)}`);
+    } catch (error) {
+      await log(`could not move ${display(file.path)}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // Returns the files whose size and mtime have held still for the settle time.
+  const scan = async (): Promise<Candidate[]> => {
+    const now = Date.now();
+    const ready: Candidate[] = [];
+    const present = new Set<string>();
+    const scanned = new Set<WatchFolder>();
+
+    for (const folder of config.folders) {
+      const files = await expandInputs([folder.input], folder.recursive).catch(() => null);
+      if (!files) continue; // e.g. an unmounted share; its history is kept until it is back
+      scanned.add(folder);
+      for (const file of files) {
+        // Dot files are how most tools write partial downloads and exports.
+        if (path.basename(file.path).startsWith(".")) continue;
+        if ([folder.output, folder.done, folder.failed].some((dir) => isWithin(dir, file.path))) continue;
+        const stat = await fs.stat(file.path).catch(() => null);
+        if (!stat) continue;
+        present.add(file.path);
+
+        const handled = state.files[file.path];
+        if (handled && handled.size === stat.size && handled.mtimeMs === stat.mtimeMs) {
+          // Handled before a restart cut the move short: finish it without reprocessing.
+          if (moveTarget(folder, handled.status)) await moveOriginal(file, folder, handled.status);
+          continue;
+        }
+
+        const seen = settling.get(file.path);
+        if (!seen || seen.size !== stat.size || seen.mtimeMs !== stat.mtimeMs) {
+          settling.set(file.path, { size: stat.size, mtimeMs: stat.mtimeMs, since: now });
+        } else if (now - seen.since >= config.settleMs) {
+          settling.delete(file.path);
+          ready.push({ file, folder, size: stat.size, mtimeMs: stat.mtimeMs });
+        }
+      }
+    }
+
+    // Forget sources that were deleted, so a file dropped again under the same name is processed.
+    for (const source of Object.keys(state.files)) {
+      const folder = config.folders.find((candidate) => isWithin(candidate.input, source));
+      if (!folder || (scanned.has(folder) && !present.has(source))) delete state.files[source];
+    }
+    for (const source of settling.keys()) {
+      if (!present.has(source)) settling.delete(source);
+    }
+    return ready;
+  };
+
+  // Reuses this source's previous output name, otherwise numbers around existing files.
+  const claimOutput = async (folder: WatchFolder, relative: string, previous?: HandledFile) => {
+    let candidate = resolveInside(folder.output, relative, "the output folder");
+    for (let n = 1; ; n += 1) {
+      const reusable = candidate === previous?.output && !claimed.has(candidate);
+      if (reusable || (!claimed.has(candidate) && !(await exists(candidate)))) break;
+      candidate = resolveInside(folder.output, numberedPath(relative, n), "the output folder");
+    }
+    claimed.add(candidate);
+    return candidate;
+  };
+
+  const handle = async ({ file, folder, size, mtimeMs }: Candidate) => {
+    const source = display(file.path);
+    const previous = state.files[file.path];
+    let buffer: Buffer;
+    try {
+      buffer = await fs.readFile(file.path);
+    } catch {
+      return; // removed while settling
+    }
+    const key = cacheKeyFor(buffer, folder.options);
+    const at = new Date().toISOString();
+
+    if (previous?.key === key) {
+      // Touched but identical: record the new mtime and keep the earlier result.
+      await record(file.path, { ...previous, size, mtimeMs, at });
+      return;
+    }
+
+    let output: string | undefined;
+    try {
+      const result = await processImage(buffer, folder.options);
+      output = await claimOutput(folder, renderTemplate(folder.template, file, result, folder.options), previous);
+      await fs.mkdir(path.dirname(output), { recursive: true });
+      // Written under a dot name and renamed, so nothing downstream sees a half-written output.
+      const temp = path.join(path.dirname(output), `.${path.basename(output)}.${process.pid}.tmp`);
+      await fs.writeFile(temp, result.buffer);
+      await fs.rename(temp, output);
+
+      await record(file.path, { size, mtimeMs, key, status: "processed", output, at });
+      await log(
+        `processed ${source} → ${display(output)} (${formatBytes(buffer.length)} → ${formatBytes(result.info.size)}, saved ${formatSaved(buffer.length, result.info.size)})`
+      );
+      await moveOriginal(file, folder, "processed");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await record(file.path, { size, mtimeMs, key, status: "failed", error: message, at });
+      await log(`failed ${source}: ${message}${folder.failed ? "" : " (left in place until it changes)"}`);
+      await moveOriginal(file, folder, "failed");
+    } finally {
+      if (output) claimed.delete(output);
+    }
+  };
+
+  /**
+   * Polls until `signal` aborts; files already being processed are finished first. With `once`,
+   * returns as soon as everything present has been handled.
+   */
+  const run = async (signal: AbortSignal, once = false) => {
+    await start();
+    while (!signal.aborted) {
+      const ready = await scan();
+      await mapWithConcurrency(ready, config.jobs, handle);
+      if (once && ready.length === 0 && settling.size === 0) break;
+      await sleep(config.pollMs, signal);
+    }
+    await saving;
+  };
+
+  return { run, log };
+};
@@ -0,0 +1,38 @@
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+import { planFrames } from "./animation";
+
+const DELAYS = [100, 100, 100, 100, 100, 100];
+
+describe("planFrames", () => {
+  it("keeps every frame when nothing is asked for", () => {
+    assert.deepEqual(planFrames(DELAYS, {}), { indices: [0, 1, 2, 3, 4, 5], delays: DELAYS });
+  });
+
+  it("hands the delay of dropped frames to the previous kept frame", () => {
+    assert.deepEqual(planFrames(DELAYS, { keepEvery: 2 }), { indices: [0, 2, 4], delays: [200, 200, 200] });
+    assert.deepEqual(planFrames([50, 60, 70, 80], { keepEvery: 3 }), { indices: [0, 3], delays: [180, 80] });
+  });
+
+  it("drops frames until the rate fits maxFps", () => {
+    // 10 fps source capped at 4 fps: a frame is kept once 250ms have passed since the last one.
+    assert.deepEqual(planFrames(DELAYS, { maxFps: 4 }), { indices: [0, 3], delays: [300, 300] });
+  });
+
+  it("samples maxFrames across the whole animation", () => {
+    assert.deepEqual(planFrames(DELAYS, { maxFrames: 3 }), { indices: [0, 2, 4], delays: [200, 200, 200] });
+    assert.deepEqual(planFrames(DELAYS, { maxFrames: 10 }).indices, [0, 1, 2, 3, 4, 5]);
+  });
+
+  it("applies a fixed delay after frame selection", () => {
+    assert.deepEqual(planFrames(DELAYS, { keepEvery: 3, delay: 40 }), { indices: [0, 3], delays: [40, 40] });
+  });
+
+  it("keeps the total duration when only dropping frames", () => {
+    const delays = [30, 90, 45, 120, 60, 75, 20];
+    const plan = planFrames(delays, { keepEvery: 2, maxFrames: 3 });
+    const total = (values: number[]) => values.reduce((sum, value) => sum + value, 0);
+    assert.equal(total(plan.delays), total(delays));
+    assert.equal(plan.indices.length, 3);
+  });
+});
@@ -0,0 +1,90 @@
+import sharp from "sharp";
+import { AnimationOptions } from "./types";
+
+const DEFAULT_FRAME_DELAY = 100; // milliseconds, used when the source does not specify one
+
+type FramePlan = { indices: number[]; delays: number[] };
+
+// Keeps the frames accepted by `keep`, folding each dropped frame's delay into the previous kept one.
+const keepFrames = (plan: FramePlan, keep: (position: number, elapsed: number) => boolean): FramePlan => {
+  const indices: number[] = [];
+  const delays: number[] = [];
+  let sinceKept = 0;
+
+  plan.indices.forEach((index, position) => {
+    if (indices.length === 0 || keep(position, sinceKept)) {
+      indices.push(index);
+      delays.push(plan.delays[position]);
+      sinceKept = plan.delays[position];
+    } else {
+      delays[delays.length - 1] += plan.delays[position];
+      sinceKept += plan.delays[position];
+    }
+  });
+  return { indices, delays };
+};
+
+/** Which source frames to keep and for how long, in playback order. */
+export const planFrames = (delays: number[], animation: AnimationOptions): FramePlan => {
+  let plan: FramePlan = { indices: delays.map((_, index) => index), delays: [...delays] };
+
+  if (animation.keepEvery && animation.keepEvery > 1) {
+    const every = animation.keepEvery;
+    plan = keepFrames(plan, (position) => position % every === 0);
+  }
+  if (animation.maxFps) {
+    const minInterval = 1000 / animation.maxFps;
+    plan = keepFrames(plan, (_, elapsed) => elapsed >= minInterval);
+  }
+  if (animation.maxFrames && plan.indices.length > animation.maxFrames) {
+    // Sample evenly across the whole animation rather than truncating its end.
+    const total = plan.indices.length;
+    const wanted = new Set(
+      Array.from({ length: animation.maxFrames }, (_, i) => Math.floor((i * total) / (animation.maxFrames as number)))
+    );
+    plan = keepFrames(plan, (position) => wanted.has(position));
+  }
+  if (animation.delay) {
+    plan = { ...plan, delays: plan.delays.map(() => animation.delay as number) };
+  }
+  return plan;
+};
+
+/**
+ * Applies frame extraction and selection, loop and delay changes. Returns the input untouched when
+ * there is nothing to do; otherwise a lossless intermediate (PNG for an extracted frame, WebP for
+ * an animation) that later stages treat like any other source, except that the default output
+ * format still comes from the original. The caller checks that `frame` is in range.
+ */
+export const applyAnimationOptions = async (
+  buffer: Buffer,
+  metadata: sharp.Metadata,
+  animation: AnimationOptions
+): Promise<Buffer> => {
+  const pages = metadata.pages ?? 1;
+
+  if (animation.frame !== undefined) {
+    return sharp(buffer, { page: animation.frame }).keepMetadata().png({ compressionLevel: 0 }).toBuffer();
+  }
+  if (pages < 2) return buffer;
+
+  const sourceDelays = Array.from({ length: pages }, (_, i) => metadata.delay?.[i] || DEFAULT_FRAME_DELAY);
+  const plan = planFrames(sourceDelays, animation);
+  const loop = animation.loop ?? metadata.loop ?? 0;
+
+  const { data, info } = await sharp(buffer, { animated: true }).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const frameHeight = info.pageHeight ?? metadata.pageHeight ?? info.height / pages;
+  const frameBytes = info.width * frameHeight * info.channels;
+  const frames = Buffer.concat(plan.indices.map((index) => data.subarray(index * frameBytes, (index + 1) * frameBytes)));
+
+  return sharp(frames, {
+    raw: {
+      width: info.width,
+      height: frameHeight * plan.indices.length,
+      channels: info.channels,
+      pageHeight: frameHeight,
+    },
+  })
+    .webp({ lossless: true, effort: 0, loop, delay: plan.delays })
+    .toBuffer();
+};
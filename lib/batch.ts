@@ -0,0 +1,84 @@
+import path from "path";
+import { mapWithConcurrency } from "./concurrency";
+import { processImage } from "./imageProcessor";
+import { resolvePresetOptions } from "./presets";
+import { BatchManifest, BatchManifestEntry, ProcessOptions, ProcessResult } from "./types";
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+export interface BatchItem {
+  name: string;
+  size: number;
+  read: () => Promise<Buffer>;
+  options?: ProcessOptions; // per-file overrides on top of the shared options
+}
+
+// Keeps the client-supplied relative path but drops anything that could escape the archive root.
+export const sanitizeRelativePath = (name: string): string => {
+  const segments = name
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((segment) => segment && segment !== "." && segment !== "..");
+  return segments.join("/") || "image";
+};
+
+const reserveOutputName = (source: string, format: string, taken: Set<string>): string => {
+  const parsed = path.posix.parse(source);
+  const stem = parsed.dir ? `${parsed.dir}/${parsed.name}` : parsed.name;
+  let candidate = `${stem}.${format}`;
+  for (let n = 1; taken.has(candidate); n += 1) {
+    candidate = `${stem}-${n}.${format}`;
+  }
+  taken.add(candidate);
+  return candidate;
+};
+
+export const processBatch = async (
+  items: BatchItem[],
+  sharedOptions: ProcessOptions,
+  onOutput: (name: string, result: ProcessResult) => void,
+  concurrency = DEFAULT_BATCH_CONCURRENCY
+): Promise<BatchManifest> => {
+  const taken = new Set<string>();
+
+  const entries = await mapWithConcurrency(items, concurrency, async (item): Promise<BatchManifestEntry> => {
+    const source = sanitizeRelativePath(item.name);
+    try {
+      const combined = { ...sharedOptions, ...item.options };
+      const merged = await resolvePresetOptions(combined.presetId, combined);
+      const result = await processImage(await item.read(), merged);
+      const output = reserveOutputName(source, result.info.format, taken);
+      onOutput(output, result);
+      return {
+        source,
+        output,
+        status: "ok",
+        originalSize: item.size,
+        outputSize: result.info.size,
+        width: result.info.width,
+        height: result.info.height,
+        format: result.info.format,
+      };
+    } catch (error) {
+      return {
+        source,
+        status: "error",
+        originalSize: item.size,
+        error: error instanceof Error ? error.message : "Failed to process image",
+      };
+    }
+  });
+
+  const succeeded = entries.filter((entry) => entry.status === "ok");
+  return {
+    createdAt: new Date().toISOString(),
+    totals: {
+      files: entries.length,
+      succeeded: succeeded.length,
+      failed: entries.length - succeeded.length,
+      originalBytes: succeeded.reduce((sum, entry) => sum + entry.originalSize, 0),
+      outputBytes: succeeded.reduce((sum, entry) => sum + (entry.outputSize ?? 0), 0),
+    },
+    entries,
+  };
+};
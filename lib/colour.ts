@@ -0,0 +1,124 @@
+import sharp from "sharp";
+import { crc32, deflateSync } from "zlib";
+import { ColourSpace, MetadataRetention, ProcessOptions, SupportedFormat } from "./types";
+
+// GIF is the only raster output libvips cannot attach an ICC profile to.
+const PROFILE_FORMATS: readonly SupportedFormat[] = ["jpeg", "png", "webp", "avif", "tiff"];
+const CMYK_FORMATS: readonly SupportedFormat[] = ["jpeg", "tiff"];
+
+/** What one source needs for colour; resolved once per source, reused for every render. */
+export interface ColourPlan {
+  space?: ColourSpace; // unset: sharp's own conversion to sRGB, no profile of our choosing
+  embedProfile: boolean;
+  highBitDepthFormats: SupportedFormat[]; // outputs that keep a 16-bit source at 16 bits
+  paletteFormats: SupportedFormat[]; // outputs written as RGB palettes, whatever the colour space
+  source: {
+    highBitDepth: boolean;
+    tagged: boolean; // has an embedded ICC profile
+    cmyk: boolean;
+    grey: boolean;
+  };
+}
+
+export const resolveColourPlan = async (buffer: Buffer, options: ProcessOptions): Promise<ColourPlan> => {
+  const { colour } = options;
+  const metadata = await sharp(buffer).metadata();
+  const highBitDepthFormats: SupportedFormat[] = [];
+  if (colour?.keepBitDepth) {
+    // A quantized PNG is a palette and JPEG-in-TIFF is 8-bit; both would drop the extra bits anyway.
+    if (options.lossless || options.palette?.quantize === false) highBitDepthFormats.push("png");
+    if (options.encoder?.tiff?.compression !== "jpeg" || options.lossless) highBitDepthFormats.push("tiff");
+  }
+  return {
+    space: colour ? (colour.space ?? "srgb") : undefined,
+    embedProfile: colour?.embedProfile !== false,
+    highBitDepthFormats,
+    paletteFormats: options.lossless || options.palette?.quantize === false ? ["gif"] : ["png", "gif"],
+    source: {
+      highBitDepth: metadata.depth === "ushort",
+      tagged: Boolean(metadata.icc),
+      cmyk: metadata.space === "cmyk",
+      grey: metadata.space === "b-w" || metadata.space === "grey16",
+    },
+  };
+};
+
+let srgbProfile: Promise<Buffer> | undefined;
+
+// libvips keeps its profiles built in; the sRGB one is read back from a tagged one-pixel image.
+const loadSrgbProfile = () => {
+  srgbProfile ??= sharp({ create: { width: 1, height: 1, channels: 3, background: "#000000" } })
+    .withIccProfile("srgb")
+    .png()
+    .toBuffer()
+    .then(async (tagged) => (await sharp(tagged).metadata()).icc as Buffer);
+  return srgbProfile;
+};
+
+const pngChunk = (type: string, data: Buffer) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "latin1"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+/**
+ * sharp takes untagged 16-bit pixels to be P3 and cannot attach a profile without converting, so
+ * such a source is rewritten as a 16-bit PNG carrying the sRGB profile its pixels are in by
+ * convention. Only done when colour options are set; other sources are returned as they are.
+ */
+export const tagUntaggedSource = async (buffer: Buffer, options: ProcessOptions): Promise<Buffer> => {
+  if (!options.colour) return buffer;
+  const metadata = await sharp(buffer).metadata();
+  if (metadata.space !== "rgb16" || metadata.icc) return buffer;
+
+  const png = await sharp(buffer).keepMetadata().toColourspace("rgb16").png({ compressionLevel: 0 }).toBuffer();
+  const profile = await loadSrgbProfile();
+  // Profile name, its terminator, then compression method 0 (zlib).
+  const iccp = pngChunk("iCCP", Buffer.concat([Buffer.from("sRGB\0\0", "latin1"), deflateSync(profile)]));
+  const headerEnd = 8 + 25; // the signature, then IHDR, which must come first
+  return Buffer.concat([png.subarray(0, headerEnd), iccp, png.subarray(headerEnd)]);
+};
+
+/**
+ * Converts to the plan's colour space and attaches its profile. sharp works on 16-bit images in P3;
+ * untagged 16-bit sources have been given an sRGB profile by tagUntaggedSource by now.
+ */
+export const applyColour = (
+  pipeline: sharp.Sharp,
+  plan: ColourPlan,
+  format: SupportedFormat,
+  retention: MetadataRetention
+): sharp.Sharp => {
+  const { source } = plan;
+  if (!plan.space) {
+    // 8-bit sources are converted to sRGB by sharp; 16-bit ones would be written as P3 pixels without a profile.
+    return source.highBitDepth && source.tagged && retention === "none"
+      ? pipeline.withIccProfile("srgb", { attach: false })
+      : pipeline;
+  }
+
+  const embeds = PROFILE_FORMATS.includes(format);
+  // A GIF's pixels are always read as sRGB, so P3 or a kept profile would shift its colours.
+  const space = embeds || plan.space === "grayscale" ? plan.space : "srgb";
+  const deep = source.highBitDepth && plan.highBitDepthFormats.includes(format);
+  let result = pipeline;
+
+  if (space === "keep") {
+    if (source.cmyk && CMYK_FORMATS.includes(format)) {
+      return result.pipelineColourspace("cmyk").toColourspace("cmyk").keepIccProfile();
+    }
+    result = result.keepIccProfile();
+    return deep ? result.toColourspace(source.grey ? "grey16" : "rgb16") : result;
+  }
+
+  // keepMetadata() re-attaches the source profile unless another one is, so "all" always gets ours.
+  const attach = embeds && (plan.embedProfile || space === "p3" || retention === "all");
+  // A palette stores RGB entries, which a GRAY profile cannot describe; the grey pixels are sRGB too.
+  const grey = plan.paletteFormats.includes(format) ? "srgb" : "sgrey";
+  result = result.withIccProfile(space === "grayscale" ? grey : space, { attach });
+  if (space === "grayscale") return result.toColourspace(deep ? "grey16" : "b-w");
+  return deep ? result.toColourspace("rgb16") : result;
+};
@@ -1,12 +1,105 @@
 import sharp from "sharp";
-import { ProcessOptions, ProcessResult, SupportedFormat } from "./types";
+import { applyAnimationOptions } from "./animation";
+import { tagUntaggedSource } from "./colour";
+import { applyMetadata, MetadataPlan, resolveMetadataPlan } from "./metadata";
+import { comparePixels, computeSsim } from "./metrics";
+import { MAX_QUALITY, MIN_QUALITY } from "./optionsSchema";
+import { optimizeSvg, rasterizeSvg, rasterOnlyOptionsIn } from "./svg";
+import {
+  AppliedFallback,
+  CropRect,
+  LosslessResult,
+  PaletteOptions,
+  ProcessHooks,
+  ProcessOptions,
+  ProcessResult,
+  SearchStep,
+  SizeFallbackStep,
+  SupportedFormat,
+} from "./types";
+import { buildWatermarkOverlay } from "./watermark";
 
 const DEFAULT_QUALITY = 85;
-const MIN_QUALITY = 10;
-const MAX_QUALITY = 100;
+const SIZE_SEARCH_STEPS = 6;
+const SIZE_SEARCH_RENDERS = SIZE_SEARCH_STEPS + 2; // plus the initial render at the cap and the final pass
+const SCORE_SEARCH_STEPS = 7;
+const SCORE_MAX_DIMENSION = 1024; // SSIM is computed on a downscaled copy to keep the search fast
 
-const isQualityDrivenFormat = (format: SupportedFormat): boolean =>
-  ["jpeg", "png", "webp", "avif", "tiff"].includes(format);
+const DEFAULT_BACKGROUND = "#ffffff";
+const DEFAULT_TIFF_TILE_SIZE = 256;
+
+const DEFAULT_FALLBACK_STEPS: SizeFallbackStep[] = ["subsample", "effort", "format", "downscale"];
+const DEFAULT_MIN_SCALE = 0.5;
+const DOWNSCALE_STEP = 0.15;
+// Most to least efficient at equal quality; "format" only ever moves left.
+const FORMAT_EFFICIENCY: SupportedFormat[] = ["avif", "webp", "jpeg", "png", "gif", "tiff"];
+const SUBSAMPLING_FORMATS: SupportedFormat[] = ["avif", "jpeg"]; // lossy WebP is always 4:2:0
+const DEFAULT_EFFORT: Partial<Record<SupportedFormat, number>> = { avif: 6, webp: 6, png: 7, gif: 5 };
+// Effort 9 is roughly ten times slower than 8 for AVIF and no smaller in practice.
+const MAX_EFFORT: Partial<Record<SupportedFormat, number>> = { avif: 8, webp: 6, png: 10, gif: 10 };
+// "auto" searches these formats at a low effort and re-encodes only the quality it settles on:
+// AVIF at effort 6 takes seconds per render, about twenty times longer than at 2, for ~5% less size.
+const AUTO_SEARCH_EFFORT: Partial<Record<SupportedFormat, number>> = { avif: 2 };
+
+// Encoder overrides the size fallback layers on top of the normal settings.
+interface EncoderTuning {
+  chromaSubsampling?: "4:2:0";
+  maxEffort?: boolean;
+  searchEffort?: number; // upper bound on the effort while a search runs
+}
+
+/** Errors caused by the input or the requested options rather than by the server. */
+export class ProcessingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProcessingError";
+  }
+}
+
+const isLosslessFormat = (format: SupportedFormat): boolean => ["webp", "avif", "png", "tiff"].includes(format);
+
+// How a requested lossless output is actually encoded; undefined when lossless was not asked for.
+const losslessMode = (format: SupportedFormat, options: ProcessOptions): LosslessResult["mode"] | undefined => {
+  if (!options.lossless) return undefined;
+  if (!isLosslessFormat(format)) return "lossy";
+  return format === "webp" && options.lossless.nearLossless ? "near-lossless" : "lossless";
+};
+
+const isQualityDrivenFormat = (format: SupportedFormat, options: ProcessOptions): boolean =>
+  ["jpeg", "png", "webp", "gif", "avif", "tiff"].includes(format) &&
+  !(format === "png" && options.palette?.quantize === false) &&
+  losslessMode(format, options) !== "lossless";
+
+// Other formats get the first frame of an animated source rather than all frames stacked into one tall image.
+const isAnimatedFormat = (format: SupportedFormat): boolean => ["gif", "webp"].includes(format);
+
+const isPaletteFormat = (format: SupportedFormat): boolean => ["png", "gif"].includes(format);
+
+const MAX_PALETTE_COLOURS = 256;
+const GIF_MAX_FRAME_ERROR = 16; // inter-frame error at the lowest quality
+
+// GIF has no quality setting of its own, so quality scales the palette instead.
+const gifColours = (palette: PaletteOptions, quality: number) =>
+  Math.max(2, Math.round(((palette.colours ?? MAX_PALETTE_COLOURS) * quality) / MAX_QUALITY));
+
+// sharp derives the PNG bit depth from the colour count, rounding down: 64 colours would give a
+// 16-entry palette. Asking for the next size up keeps the requested colours available.
+const PNG_PALETTE_SIZES = [2, 4, 16, MAX_PALETTE_COLOURS];
+const pngColours = (palette: PaletteOptions) =>
+  PNG_PALETTE_SIZES.find((size) => size >= (palette.colours ?? MAX_PALETTE_COLOURS)) ?? MAX_PALETTE_COLOURS;
+
+const chromaSubsamplingOf = (format: SupportedFormat, options: ProcessOptions, tuning: EncoderTuning = {}) =>
+  tuning.chromaSubsampling ??
+  (format === "jpeg" ? (options.encoder?.jpeg?.chromaSubsampling ?? "4:2:0") : (options.encoder?.avif?.chromaSubsampling ?? "4:4:4"));
+
+const effortOf = (format: SupportedFormat, options: ProcessOptions, tuning: EncoderTuning = {}): number => {
+  const chosen =
+    (format === "avif" ? options.encoder?.avif?.effort : format === "webp" ? options.encoder?.webp?.effort : undefined) ??
+    DEFAULT_EFFORT[format] ??
+    0;
+  if (tuning.searchEffort !== undefined) return Math.min(chosen, tuning.searchEffort);
+  return tuning.maxEffort ? Math.max(chosen, MAX_EFFORT[format] ?? chosen) : chosen;
+};
 
 const formatFromMetadata = (format?: string | null): SupportedFormat => {
   if (!format) return "jpeg";
@@ -24,92 +117,333 @@ const formatFromMetadata = (format?: string | null): SupportedFormat => {
 const applyFormat = (
   pipeline: sharp.Sharp,
   format: SupportedFormat,
-  quality: number
+  quality: number,
+  options: ProcessOptions = {},
+  tuning: EncoderTuning = {}
 ): sharp.Sharp => {
+  const palette = options.palette ?? {};
+  const encoder = options.encoder ?? {};
+  const lossless = losslessMode(format, options);
+  const effort = effortOf(format, options, tuning);
   switch (format) {
-    case "jpeg":
-      return pipeline.jpeg({ quality, mozjpeg: true, progressive: true });
+    case "jpeg": {
+      const { progressive = true, optimiseScans = true, ...jpeg } = encoder.jpeg ?? {};
+      // mozjpeg's defaults spelled out: `mozjpeg: true` would force progressive scans back on.
+      return pipeline.jpeg({
+        quality,
+        trellisQuantisation: true,
+        overshootDeringing: true,
+        quantisationTable: 3,
+        ...jpeg,
+        progressive,
+        optimiseScans: progressive && optimiseScans,
+        chromaSubsampling: chromaSubsamplingOf(format, options, tuning),
+      });
+    }
     case "png":
-      return pipeline.png({ quality, compressionLevel: 9, adaptiveFiltering: true });
+      if (palette.quantize === false || lossless) {
+        return pipeline.png({ palette: false, compressionLevel: 9, adaptiveFiltering: true });
+      }
+      // libimagequant uses as few of the allowed colours as the quality needs, so lowering quality
+      // is what shrinks the palette.
+      return pipeline.png({
+        palette: true,
+        quality,
+        colours: pngColours(palette),
+        dither: palette.dither,
+        effort,
+        compressionLevel: 9,
+        adaptiveFiltering: true,
+      });
     case "webp":
-      return pipeline.webp({ quality, effort: 6 });
+      if (lossless === "lossless") return pipeline.webp({ lossless: true, effort });
+      // Near-lossless reads quality as how much preprocessing is allowed before the lossless encode.
+      return pipeline.webp({
+        quality,
+        nearLossless: lossless === "near-lossless",
+        effort,
+        alphaQuality: encoder.webp?.alphaQuality,
+        smartSubsample: encoder.webp?.smartSubsample,
+      });
     case "gif":
-      return pipeline.gif({ effort: 5 });
-    case "avif":
-      return pipeline.avif({ quality, effort: 6 });
-    case "tiff":
-      return pipeline.tiff({ quality, compression: "lzw" });
-    case "svg":
-      return pipeline; // sharp cannot encode SVG; return as-is
+      // Besides the palette, lower quality also lets more pixels be reused from the previous frame.
+      return pipeline.gif({
+        effort,
+        colours: gifColours(palette, quality),
+        dither: palette.dither,
+        interFrameMaxError: Math.round(((MAX_QUALITY - quality) * GIF_MAX_FRAME_ERROR) / MAX_QUALITY),
+      });
+    case "avif": {
+      const bitdepth = encoder.avif?.bitdepth as 8 | 10 | 12 | undefined;
+      if (lossless) return pipeline.avif({ lossless: true, effort, bitdepth });
+      return pipeline.avif({ quality, effort, bitdepth, chromaSubsampling: chromaSubsamplingOf(format, options, tuning) });
+    }
+    case "tiff": {
+      const { compression, predictor = "horizontal", tile, tileSize = DEFAULT_TIFF_TILE_SIZE } = encoder.tiff ?? {};
+      // Lossless keeps an explicitly chosen lossless codec and otherwise uses deflate.
+      const codec = lossless
+        ? (options.lossless?.compression ?? (compression !== "jpeg" ? compression : undefined) ?? "deflate")
+        : (compression ?? "lzw");
+      return pipeline.tiff({
+        quality,
+        compression: codec,
+        predictor,
+        tile,
+        tileWidth: tile ? tileSize : undefined,
+        tileHeight: tile ? tileSize : undefined,
+      });
+    }
     default:
       return pipeline.jpeg({ quality });
   }
 };
 
+const applyResize = (pipeline: sharp.Sharp, options: ProcessOptions): sharp.Sharp => {
+  if (!options.width && !options.height) return pipeline;
+
+  // Without an explicit fit, keep the original behaviour driven by keepAspectRatio.
+  const fit = options.fit ?? (options.keepAspectRatio === false ? "fill" : "inside");
+  return pipeline.resize({
+    width: options.width,
+    height: options.height,
+    fit,
+    position: fit === "cover" ? (options.position ?? "centre") : undefined,
+    background: fit === "contain" ? (options.background ?? DEFAULT_BACKGROUND) : undefined,
+    withoutEnlargement: true,
+  });
+};
+
+// The overlay is one frame tall; tiling repeats it down every frame of an animated pipeline, where
+// sharp stacks the pages into one tall image.
+const withOverlay = (pipeline: sharp.Sharp, overlay?: Buffer): sharp.Sharp =>
+  overlay ? pipeline.composite([{ input: overlay, tile: true }]) : pipeline;
+
+// Everything up to the encoder; lossless verification compares the output with these pixels.
+const buildPixelPipeline = (
+  buffer: Buffer,
+  options: ProcessOptions,
+  format: SupportedFormat,
+  metadata: MetadataPlan,
+  overlay?: Buffer
+): sharp.Sharp => {
+  const base = sharp(buffer, { animated: isAnimatedFormat(format), autoOrient: options.autoOrient !== false });
+  let pipeline = withOverlay(applyResize(base, options), overlay);
+
+  // Without alpha-aware palettes every entry goes to colour; transparency is flattened away first.
+  if (isPaletteFormat(format) && options.palette?.alphaAware === false) {
+    const background = options.background && options.background !== "transparent" ? options.background : DEFAULT_BACKGROUND;
+    pipeline = pipeline.flatten({ background });
+  }
+
+  return applyMetadata(pipeline, metadata, format);
+};
+
 const buildPipeline = (
   buffer: Buffer,
   options: ProcessOptions,
   quality: number,
-  format: SupportedFormat
-): sharp.Sharp => {
-  const resizeNeeded = Boolean(options.width || options.height);
-  const base = sharp(buffer, { animated: true });
+  format: SupportedFormat,
+  metadata: MetadataPlan,
+  overlay?: Buffer,
+  tuning?: EncoderTuning
+): sharp.Sharp =>
+  applyFormat(buildPixelPipeline(buffer, options, format, metadata, overlay), format, quality, options, tuning);
+
+const resolveCrop = (crop: CropRect, width: number, height: number): sharp.Region => {
+  const scaleX = crop.unit === "percent" ? width / 100 : 1;
+  const scaleY = crop.unit === "percent" ? height / 100 : 1;
+  const left = Math.min(Math.max(Math.round(crop.left * scaleX), 0), width - 1);
+  const top = Math.min(Math.max(Math.round(crop.top * scaleY), 0), height - 1);
+  return {
+    left,
+    top,
+    width: Math.max(1, Math.min(Math.round(crop.width * scaleX), width - left)),
+    height: Math.max(1, Math.min(Math.round(crop.height * scaleY), height - top)),
+  };
+};
 
-  let pipeline = resizeNeeded
-    ? base.resize({
-        width: options.width,
-        height: options.height,
-        fit: options.keepAspectRatio === false ? "fill" : "inside",
-        withoutEnlargement: true,
-      })
-    : base;
+/**
+ * Applies SVG rasterization, frame selection, the sRGB tag for untagged 16-bit sources and the
+ * geometric transforms (auto-orient, crop, flips, rotation) once, up front, so the quality searches only repeat resize and encode. Sharp
+ * cannot order an arbitrary rotation before a resize in a single pipeline, hence the lossless
+ * intermediate.
+ */
+export const prepareSource = async (
+  input: Buffer,
+  options: ProcessOptions
+): Promise<{ buffer: Buffer; options: ProcessOptions }> => {
+  const { crop, flipHorizontal, flipVertical, rotate, animation, ...rest } = options;
+  let buffer = input;
+  let metadata = await sharp(buffer).metadata();
 
-  if (options.stripMetadata === false) {
-    pipeline = pipeline.withMetadata();
+  if (metadata.format === "svg") {
+    buffer = await rasterizeSvg(buffer, metadata, options);
+    metadata = await sharp(buffer).metadata();
+  }
+  if (animation) {
+    const pages = metadata.pages ?? 1;
+    if (animation.frame !== undefined && animation.frame >= pages) {
+      throw new ProcessingError(`Frame ${animation.frame} is out of range; the image has ${pages} frame(s)`);
+    }
+    buffer = await applyAnimationOptions(buffer, metadata, animation);
+    metadata = await sharp(buffer).metadata();
+  }
+  const tagged = await tagUntaggedSource(buffer, options);
+  if (tagged !== buffer) {
+    buffer = tagged;
+    metadata = await sharp(buffer).metadata();
+  }
+  if (!crop && !flipHorizontal && !flipVertical && !rotate) {
+    return { buffer, options: rest };
   }
 
-  return applyFormat(pipeline, format, quality);
+  const autoOrient = options.autoOrient !== false;
+  const animated = (metadata.pages ?? 1) > 1;
+  if (animated && rotate && rotate % 360 !== 0) {
+    throw new ProcessingError("Rotation is not supported for animated images");
+  }
+
+  let pipeline = sharp(buffer, { animated: true, autoOrient });
+  if (crop) {
+    const oriented = autoOrient ? metadata.autoOrient : metadata;
+    const width = oriented?.width ?? metadata.width ?? 1;
+    const height = (animated ? metadata.pageHeight : oriented?.height) ?? metadata.height ?? 1;
+    pipeline = pipeline.extract(resolveCrop(crop, width, height));
+  }
+  if (flipVertical) pipeline = pipeline.flip();
+  if (flipHorizontal) pipeline = pipeline.flop();
+  if (rotate && rotate % 360 !== 0) {
+    pipeline = pipeline.rotate(rotate, { background: options.background ?? DEFAULT_BACKGROUND });
+  }
+
+  // PNG rather than TIFF for stills: libvips drops the EXIF block when saving TIFF.
+  pipeline = pipeline.keepMetadata();
+  if (options.colour?.keepBitDepth && metadata.depth === "ushort" && !animated) {
+    pipeline = pipeline.toColourspace(metadata.space === "grey16" ? "grey16" : "rgb16");
+  }
+  const prepared = await (animated
+    ? pipeline.webp({ lossless: true, effort: 0 })
+    : pipeline.png({ compressionLevel: 0 })
+  ).toBuffer();
+
+  // Orientation has been baked into the pixels, so later stages must not apply it again.
+  return { buffer: prepared, options: { ...rest, autoOrient: false } };
 };
 
 const render = async (
   buffer: Buffer,
   options: ProcessOptions,
   quality: number,
-  format: SupportedFormat
+  format: SupportedFormat,
+  metadata: MetadataPlan,
+  overlay?: Buffer,
+  tuning?: EncoderTuning
 ): Promise<ProcessResult> => {
-  const pipeline = buildPipeline(buffer, options, quality, format);
-  const { data, info } = await pipeline.toBuffer({ resolveWithObject: true });
-  return { buffer: data, info: { format: info.format ?? format, size: info.size, width: info.width, height: info.height } };
+  let output: { data: Buffer; info: sharp.OutputInfo };
+  try {
+    output = await buildPipeline(buffer, options, quality, format, metadata, overlay, tuning).toBuffer({ resolveWithObject: true });
+  } catch (error) {
+    // Prebuilt libvips binaries leave out some codecs and bit depths; that is the request's to fix, not a server fault.
+    if (/ZSTD compression support is not configured/.test(String(error))) {
+      throw new ProcessingError("ZSTD TIFF compression is not available on this server; use deflate");
+    }
+    if (/bitdepth when using prebuilt binaries/.test(String(error))) {
+      throw new ProcessingError("AVIF bit depths above 8 are not available on this server");
+    }
+    throw error;
+  }
+  const { data, info } = output;
+  // Animated output is one tall image to sharp; report the frame height, as inspection does.
+  const height = (info.pages ?? 1) > 1 ? (info.pageHeight ?? info.height) : info.height;
+  // Report the encoder we chose: sharp names AVIF output "heif", which is the wrong MIME type and extension.
+  return { buffer: data, info: { format, size: info.size, width: info.width, height, quality } };
 };
 
-export const processImage = async (
-  buffer: Buffer,
-  options: ProcessOptions
-): Promise<ProcessResult> => {
-  const metadata = await sharp(buffer).metadata();
-  const format = options.format ?? formatFromMetadata(metadata.format);
-  const qualityBase = options.quality ?? DEFAULT_QUALITY;
-  const qualityCap = Math.min(Math.max(qualityBase, MIN_QUALITY), MAX_QUALITY);
+// The overlay is sized to the output frame, which depends on the resize, so probe it once up front.
+const createWatermarkOverlay = async (buffer: Buffer, options: ProcessOptions): Promise<Buffer | undefined> => {
+  const { watermark } = options;
+  if (!watermark) return undefined;
+  if (Boolean(watermark.text) === Boolean(watermark.image)) {
+    throw new ProcessingError("Watermark needs exactly one of text or image");
+  }
 
-  // Formats where "quality" is ignored should be processed in a single pass.
-  if (!isQualityDrivenFormat(format) || !options.targetSizeKB) {
-    return render(buffer, options, qualityCap, format);
+  const { info } = await applyResize(sharp(buffer, { autoOrient: options.autoOrient !== false }), options)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  try {
+    return await buildWatermarkOverlay(watermark, info.width, info.height);
+  } catch (error) {
+    throw new ProcessingError(`Unable to render watermark: ${error instanceof Error ? error.message : error}`);
   }
+};
 
-  const targetBytes = options.targetSizeKB * 1024;
+type Renderer = (quality: number) => Promise<ProcessResult>;
+
+type Scorer = (result: ProcessResult) => Promise<number>;
+
+// Compares each encoded result against the source scaled to the same size, on flattened luma.
+const createScorer = (buffer: Buffer, options: ProcessOptions, overlay?: Buffer): Scorer => {
+  const references = new Map<string, Promise<Buffer>>();
+  let resizedSource: Promise<{ data: Buffer; info: sharp.OutputInfo }> | null = null;
+
+  const decodeGrey = (input: sharp.Sharp, width: number, height: number) =>
+    input.resize({ width, height, fit: "fill" }).flatten({ background: "#ffffff" }).greyscale().raw().toBuffer();
+
+  // The reference goes through the same orientation, resize and watermark as the output, so only
+  // encoding differences are measured.
+  const reference = async (width: number, height: number) => {
+    if (!resizedSource) {
+      const resized = applyResize(sharp(buffer, { autoOrient: options.autoOrient !== false }), options);
+      resizedSource = withOverlay(resized, overlay).raw().toBuffer({ resolveWithObject: true });
+    }
+    const { data, info } = await resizedSource;
+    return decodeGrey(sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } }), width, height);
+  };
+
+  return async (result) => {
+    const outWidth = result.info.width ?? 1;
+    const outHeight = result.info.height ?? 1;
+    const scale = Math.min(1, SCORE_MAX_DIMENSION / Math.max(outWidth, outHeight));
+    const width = Math.max(1, Math.round(outWidth * scale));
+    const height = Math.max(1, Math.round(outHeight * scale));
+    const key = `${width}x${height}`;
+
+    if (!references.has(key)) {
+      references.set(key, reference(width, height));
+    }
+
+    const [expected, decoded] = await Promise.all([
+      references.get(key) as Promise<Buffer>,
+      decodeGrey(sharp(result.buffer), width, height),
+    ]);
+    return computeSsim(expected, decoded, width, height);
+  };
+};
+
+// With mustFit (a hard limit), any result under the target beats any result over it.
+const searchForTargetSize = async (
+  renderAt: Renderer,
+  qualityCap: number,
+  targetSizeKB: number,
+  mustFit = false
+): Promise<ProcessResult> => {
+  const targetBytes = targetSizeKB * 1024;
+  const closer = (result: ProcessResult, best: ProcessResult) => {
+    const fits = result.info.size <= targetBytes;
+    if (mustFit && fits !== best.info.size <= targetBytes) return fits;
+    return Math.abs(result.info.size - targetBytes) < Math.abs(best.info.size - targetBytes);
+  };
 
   let low = MIN_QUALITY;
   let high = MAX_QUALITY;
   let bestQuality = qualityCap;
-  let bestResult = await render(buffer, options, bestQuality, format);
+  let bestResult = await renderAt(bestQuality);
 
-  for (let i = 0; i < 6; i += 1) {
+  for (let i = 0; i < SIZE_SEARCH_STEPS; i += 1) {
     const mid = Math.round((low + high) / 2);
-    const result = await render(buffer, options, mid, format);
-    const diff = Math.abs(result.info.size - targetBytes);
-    const bestDiff = Math.abs(bestResult.info.size - targetBytes);
+    const result = await renderAt(mid);
 
-    if (diff < bestDiff) {
+    if (closer(result, bestResult)) {
       bestResult = result;
       bestQuality = mid;
     }
@@ -123,8 +457,423 @@ export const processImage = async (
 
   // Final pass with the best quality found.
   if (bestQuality !== qualityCap) {
-    bestResult = await render(buffer, options, bestQuality, format);
+    bestResult = await renderAt(bestQuality);
+  }
+
+  // The bisection never lands exactly on the floor, which a hard limit needs to have tried.
+  if (mustFit && bestResult.info.size > targetBytes && bestQuality !== MIN_QUALITY) {
+    const floor = await renderAt(MIN_QUALITY);
+    if (floor.info.size < bestResult.info.size) return floor;
   }
 
   return bestResult;
 };
+
+// Finds the lowest encoder quality whose SSIM against the source still reaches the threshold.
+const searchForQualityScore = async (
+  renderAt: Renderer,
+  score: Scorer,
+  threshold: number
+): Promise<ProcessResult> => {
+  let low = MIN_QUALITY;
+  let high = MAX_QUALITY;
+  let best: ProcessResult | null = null;
+  let closest: ProcessResult | null = null;
+
+  for (let i = 0; i < SCORE_SEARCH_STEPS && low <= high; i += 1) {
+    const mid = Math.round((low + high) / 2);
+    const result = await renderAt(mid);
+    const qualityScore = await score(result);
+    const scored = { ...result, info: { ...result.info, qualityScore } };
+
+    if (qualityScore >= threshold) {
+      best = scored;
+      high = mid - 1;
+    } else {
+      if (!closest || qualityScore > (closest.info.qualityScore ?? 0)) closest = scored;
+      low = mid + 1;
+    }
+  }
+
+  // When nothing reached the threshold the search has climbed to the top of the range;
+  // return the closest attempt rather than failing.
+  return (best ?? closest) as ProcessResult;
+};
+
+// SVG output is vector optimization only; there are no pixels to resize or encode.
+const processSvg = async (input: Buffer, sourceFormat: string | undefined, options: ProcessOptions) => {
+  if (sourceFormat !== "svg") {
+    throw new ProcessingError("Raster images cannot be converted to SVG; choose a raster output format");
+  }
+  const unsupported = rasterOnlyOptionsIn(options);
+  if (unsupported.length > 0) {
+    throw new ProcessingError(`SVG output does not support ${unsupported.join(", ")}; choose a raster output format`);
+  }
+  try {
+    return await optimizeSvg(input, options);
+  } catch (error) {
+    throw new ProcessingError(`Unable to optimize SVG: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+// Runs the requested quality strategy (single pass, size search or SSIM search) for one output format.
+const encode = async (
+  buffer: Buffer,
+  options: ProcessOptions,
+  format: SupportedFormat,
+  metadataPlan: MetadataPlan,
+  overlay: Buffer | undefined,
+  hooks: ProcessHooks,
+  tuning: EncoderTuning = {}
+): Promise<ProcessResult> => {
+  const mustFit = Boolean(options.sizeFallback);
+  const sizeRenders = SIZE_SEARCH_RENDERS + (mustFit ? 1 : 0);
+  const qualityBase = options.quality ?? DEFAULT_QUALITY;
+  const qualityCap = Math.min(Math.max(qualityBase, MIN_QUALITY), MAX_QUALITY);
+
+  // Formats where "quality" is ignored should be processed in a single pass.
+  const searching = isQualityDrivenFormat(format, options) && Boolean(options.targetSizeKB || options.targetQualityScore);
+  const maxRenders = !searching
+    ? 1
+    : options.targetQualityScore
+      ? SCORE_SEARCH_STEPS + (options.targetSizeKB ? sizeRenders : 0)
+      : sizeRenders;
+  // Every render is recorded, and scores are attached as the search computes them.
+  const steps = new Map<ProcessResult, SearchStep>();
+  const traced = (result: ProcessResult): ProcessResult => ({
+    ...result,
+    info: { ...result.info, search: Array.from(steps.values()) },
+  });
+
+  const renderAt: Renderer = async (quality) => {
+    hooks.signal?.throwIfAborted();
+    const result = await render(buffer, options, quality, format, metadataPlan, overlay, tuning);
+    steps.set(result, { format, quality, size: result.info.size });
+    hooks.onProgress?.({ stage: searching ? "searching" : "encoding", iteration: steps.size, maxIterations: maxRenders, format });
+    return result;
+  };
+
+  if (!searching) {
+    return traced(await renderAt(qualityCap));
+  }
+
+  if (!options.targetQualityScore) {
+    return traced(await searchForTargetSize(renderAt, qualityCap, options.targetSizeKB as number, mustFit));
+  }
+
+  const measure = createScorer(buffer, options, overlay);
+  const score: Scorer = async (result) => {
+    const qualityScore = await measure(result);
+    const step = steps.get(result);
+    if (step) step.qualityScore = qualityScore;
+    return qualityScore;
+  };
+  const scored = await searchForQualityScore(renderAt, score, options.targetQualityScore);
+  if (!options.targetSizeKB || scored.info.size <= options.targetSizeKB * 1024) {
+    return traced(scored);
+  }
+
+  // The size cap wins over the perceptual target; report the score that was actually reached.
+  const capped = await searchForTargetSize(renderAt, qualityCap, options.targetSizeKB, mustFit);
+  return traced({ ...capped, info: { ...capped.info, qualityScore: await score(capped) } });
+};
+
+const paddingIsTransparent = ({ fit, background }: ProcessOptions): boolean => {
+  if (fit !== "contain" || !background) return false;
+  if (background.toLowerCase() === "transparent") return true;
+  const hex = background.slice(1);
+  return (hex.length === 4 && !/f$/i.test(hex)) || (hex.length === 8 && !/ff$/i.test(hex));
+};
+
+/**
+ * Formats "auto" may choose from. Animated sources only get animated formats, and images with
+ * any transparent pixel never get JPEG; an alpha channel that is fully opaque does not count.
+ */
+const autoCandidates = async (
+  buffer: Buffer,
+  metadata: sharp.Metadata,
+  options: ProcessOptions
+): Promise<SupportedFormat[]> => {
+  const animated = (metadata.pages ?? 1) > 1;
+  // Lossless AVIF is several times slower than lossless WebP and larger in practice, so it is not tried.
+  if (options.lossless) {
+    return animated ? ["webp"] : ["webp", "png"];
+  }
+  if (animated) {
+    return ["webp", "gif"];
+  }
+  const transparent =
+    paddingIsTransparent(options) || (Boolean(metadata.hasAlpha) && !(await sharp(buffer).stats()).isOpaque);
+  return transparent ? ["avif", "webp", "png"] : ["avif", "webp", "jpeg"];
+};
+
+/**
+ * Encodes every candidate to the same SSIM and keeps the smallest. Without an explicit
+ * targetQualityScore, the SSIM of a JPEG at the requested quality sets the bar, so "quality 80"
+ * means the same visual quality whichever format wins. When a size cap stops candidates from
+ * reaching the bar, the best-looking one that fits wins instead. Lossless candidates are all
+ * exact, so the smallest simply wins.
+ */
+const selectFormat = async (
+  buffer: Buffer,
+  metadata: sharp.Metadata,
+  options: ProcessOptions,
+  metadataPlan: MetadataPlan,
+  overlay: Buffer | undefined,
+  hooks: ProcessHooks,
+  vector?: ProcessResult
+): Promise<ProcessResult> => {
+  const formats = await autoCandidates(buffer, metadata, options);
+
+  const search: SearchStep[] = [];
+  const qualityCap = Math.min(Math.max(options.quality ?? DEFAULT_QUALITY, MIN_QUALITY), MAX_QUALITY);
+  const score = createScorer(buffer, options, overlay);
+  let targetQualityScore = options.targetQualityScore;
+  if (!targetQualityScore && !options.lossless) {
+    hooks.signal?.throwIfAborted();
+    const reference = await render(buffer, options, qualityCap, "jpeg", metadataPlan, overlay);
+    targetQualityScore = await score(reference);
+    search.push({ format: "jpeg", quality: qualityCap, size: reference.info.size, qualityScore: targetQualityScore });
+  }
+
+  const candidateOptions = { ...options, targetQualityScore };
+  const results: ProcessResult[] = vector ? [vector] : [];
+  for (const format of formats) {
+    const searchEffort = AUTO_SEARCH_EFFORT[format];
+    const searched = await encode(buffer, candidateOptions, format, metadataPlan, overlay, hooks, { searchEffort });
+    if (searchEffort === undefined || effortOf(format, options) <= searchEffort) {
+      results.push(searched);
+      continue;
+    }
+    // The full effort render is scored again; it replaces the quick one unless it came out larger.
+    hooks.signal?.throwIfAborted();
+    const quality = searched.info.quality ?? qualityCap;
+    const full = await render(buffer, candidateOptions, quality, format, metadataPlan, overlay);
+    const qualityScore = await score(full);
+    const step: SearchStep = { format, quality, size: full.info.size, qualityScore };
+    const chosen = full.info.size <= searched.info.size ? { ...full, info: { ...full.info, qualityScore } } : searched;
+    results.push({ ...chosen, info: { ...chosen.info, search: [...(searched.info.search ?? []), step] } });
+  }
+
+  const candidates = results.map(({ info }) => ({
+    format: info.format as SupportedFormat,
+    size: info.size,
+    qualityScore: info.qualityScore,
+  }));
+  // The optimized SVG has no score; it is the source itself, so it always reaches the bar.
+  const scoreOf = (result: ProcessResult) => result.info.qualityScore ?? 1;
+  const fits = results.filter(({ info }) => !options.targetSizeKB || info.size <= options.targetSizeKB * 1024);
+  const acceptable = fits.filter((result) => scoreOf(result) >= (targetQualityScore ?? 0));
+  const winner =
+    acceptable.length > 0
+      ? acceptable.reduce((best, result) => (result.info.size < best.info.size ? result : best))
+      : fits.length > 0
+        ? fits.reduce((best, result) => (scoreOf(result) > scoreOf(best) ? result : best))
+        : results.reduce((best, result) => (result.info.size < best.info.size ? result : best));
+  search.push(...results.flatMap((result) => result.info.search ?? []));
+  return { ...winner, info: { ...winner.info, candidates, search } };
+};
+
+const formatLabel = (format: string) => format.toUpperCase();
+
+/**
+ * Walks the size fallback ladder when even the quality floor misses targetSizeKB. Each step keeps
+ * the earlier ones in force; the first result under the limit wins, and if none gets there the
+ * request fails rather than silently returning an oversize file.
+ */
+const fitToSize = async (
+  buffer: Buffer,
+  metadata: sharp.Metadata,
+  options: ProcessOptions,
+  initial: ProcessResult,
+  metadataPlan: MetadataPlan,
+  hooks: ProcessHooks
+): Promise<ProcessResult> => {
+  const targetSizeKB = options.targetSizeKB as number;
+  const limit = targetSizeKB * 1024;
+  const { steps = DEFAULT_FALLBACK_STEPS, minScale = DEFAULT_MIN_SCALE } = options.sizeFallback ?? {};
+  const ladderHooks: ProcessHooks = {
+    ...hooks,
+    onProgress: (progress) => hooks.onProgress?.({ ...progress, stage: "fallback" }),
+  };
+
+  const search = [...(initial.info.search ?? [])];
+  const applied: AppliedFallback[] = [];
+  const tuning: EncoderTuning = {};
+  let best = initial;
+  let format = initial.info.format as SupportedFormat;
+  let current = options;
+
+  // Try the quality floor first: when even that misses, a full search cannot fit either.
+  const attempt = async (attemptOptions: ProcessOptions, attemptFormat: SupportedFormat) => {
+    // The watermark is laid out for the output size, which downscaling changes.
+    const overlay = await createWatermarkOverlay(buffer, attemptOptions);
+    const encodeAt = (encodeOptions: ProcessOptions) =>
+      encode(buffer, encodeOptions, attemptFormat, metadataPlan, overlay, ladderHooks, { ...tuning });
+    let result = await encodeAt({
+      ...attemptOptions,
+      quality: MIN_QUALITY,
+      targetSizeKB: undefined,
+      targetQualityScore: undefined,
+    });
+    search.push(...(result.info.search ?? []));
+    if (result.info.size <= limit) {
+      result = await encodeAt(attemptOptions);
+      search.push(...(result.info.search ?? []));
+    }
+    if (result.info.size < best.info.size) best = result;
+  };
+
+  for (const step of steps) {
+    if (best.info.size <= limit) break;
+
+    if (
+      step === "subsample" &&
+      SUBSAMPLING_FORMATS.includes(format) &&
+      chromaSubsamplingOf(format, current, tuning) !== "4:2:0"
+    ) {
+      tuning.chromaSubsampling = "4:2:0";
+      await attempt(current, format);
+      applied.push({ step, detail: `${formatLabel(format)} chroma subsampling 4:2:0`, size: best.info.size });
+    } else if (
+      step === "effort" &&
+      isQualityDrivenFormat(format, current) &&
+      effortOf(format, current, tuning) < (MAX_EFFORT[format] ?? 0)
+    ) {
+      tuning.maxEffort = true;
+      await attempt(current, format);
+      applied.push({ step, detail: `${formatLabel(format)} maximum encoder effort`, size: best.info.size });
+    } else if (step === "format") {
+      // Only formats "auto" would allow, so transparency and animation survive the switch.
+      const allowed = await autoCandidates(buffer, metadata, current);
+      const rank = FORMAT_EFFICIENCY.indexOf(format);
+      const previous = format;
+      for (const candidate of FORMAT_EFFICIENCY.slice(0, rank === -1 ? undefined : rank)) {
+        if (best.info.size <= limit) break;
+        if (allowed.includes(candidate)) await attempt(current, candidate);
+      }
+      format = best.info.format as SupportedFormat;
+      if (format !== previous) {
+        applied.push({ step, detail: `${formatLabel(previous)} → ${formatLabel(format)}`, size: best.info.size });
+      }
+    } else if (step === "downscale" && format !== "svg") {
+      // Scale the output frame as a whole, so cover crops and fixed sizes keep their framing.
+      const output = await sharp(initial.buffer).metadata();
+      const width = output.width ?? 1;
+      const height = output.pageHeight ?? output.height ?? 1;
+      let scale = 1;
+      while (best.info.size > limit && scale > minScale) {
+        hooks.signal?.throwIfAborted();
+        scale = Math.max(minScale, scale - DOWNSCALE_STEP);
+        current = {
+          ...options,
+          width: Math.max(1, Math.round(width * scale)),
+          height: Math.max(1, Math.round(height * scale)),
+        };
+        await attempt(current, format);
+      }
+      if (scale < 1) {
+        applied.push({
+          step,
+          detail: `${current.width}×${current.height}px (${Math.round(scale * 100)}%)`,
+          size: best.info.size,
+        });
+      }
+    }
+  }
+
+  if (best.info.size > limit) {
+    const tried = applied.length > 0 ? ` after ${applied.map(({ detail }) => detail).join(", ")}` : "";
+    throw new ProcessingError(
+      `Could not get under ${targetSizeKB} KB: the smallest result was ${(best.info.size / 1024).toFixed(1)} KB${tried}`
+    );
+  }
+  return { ...best, info: { ...best.info, candidates: initial.info.candidates, search, fallback: applied } };
+};
+
+/**
+ * Reports how lossless output was encoded and, with `verify`, decodes it and compares it with the
+ * pixels that went into the encoder.
+ */
+const describeLossless = async (
+  result: ProcessResult,
+  buffer: Buffer,
+  options: ProcessOptions,
+  metadataPlan: MetadataPlan,
+  overlay: Buffer | undefined,
+  hooks: ProcessHooks
+): Promise<LosslessResult> => {
+  const format = result.info.format as SupportedFormat;
+  const mode = losslessMode(format, options) as LosslessResult["mode"];
+  if (!options.lossless?.verify) return { mode };
+
+  hooks.signal?.throwIfAborted();
+  hooks.onProgress?.({ stage: "verifying", format });
+  // Greyscale and CMYK sources come back from some encoders as RGB, so compare both as sRGB with alpha.
+  const decode = (pipeline: sharp.Sharp) =>
+    pipeline.toColourspace("srgb").ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const [expected, actual] = await Promise.all([
+    decode(buildPixelPipeline(buffer, options, format, metadataPlan, overlay)),
+    decode(sharp(result.buffer, { animated: isAnimatedFormat(format) })),
+  ]);
+  if (expected.data.length !== actual.data.length) {
+    const pixels = expected.info.width * expected.info.height;
+    return { mode, verification: { identical: false, differingPixels: pixels, maxDifference: 255 } };
+  }
+  const { differingPixels, maxDifference } = comparePixels(expected.data, actual.data);
+  return { mode, verification: { identical: differingPixels === 0, differingPixels, maxDifference } };
+};
+
+const withTimings = (result: ProcessResult, startedAt: number, preparedAt: number): ProcessResult => ({
+  ...result,
+  info: {
+    ...result.info,
+    timings: { prepareMs: Math.round(preparedAt - startedAt), encodeMs: Math.round(performance.now() - preparedAt) },
+  },
+});
+
+export const processImage = async (
+  input: Buffer,
+  requestedOptions: ProcessOptions,
+  hooks: ProcessHooks = {}
+): Promise<ProcessResult> => {
+  const startedAt = performance.now();
+  hooks.onProgress?.({ stage: "preparing" });
+  const sourceFormat = (await sharp(input).metadata()).format;
+  const requestedFormat = requestedOptions.format ?? formatFromMetadata(sourceFormat);
+  if (requestedFormat === "svg") {
+    return withTimings(await processSvg(input, sourceFormat, requestedOptions), startedAt, startedAt);
+  }
+  // An SVG source can stay vector under "auto" when nothing asks for raster-only processing.
+  const vector =
+    requestedFormat === "auto" && sourceFormat === "svg" && rasterOnlyOptionsIn(requestedOptions).length === 0
+      ? await processSvg(input, sourceFormat, requestedOptions)
+      : undefined;
+
+  const { buffer, options } = await prepareSource(input, requestedOptions);
+  const metadata = await sharp(buffer).metadata();
+  // Not read from the prepared buffer: its PNG or WebP intermediate says nothing about the source.
+  const format = requestedFormat;
+  const preparedAt = performance.now();
+  if (format === "avif" && (metadata.pages ?? 1) > 1) {
+    throw new ProcessingError("Animated AVIF output is not supported; choose WebP or GIF, or set animation.frame to export a still");
+  }
+  if (options.lossless && options.sizeFallback) {
+    throw new ProcessingError("sizeFallback cannot be combined with lossless output; meeting a hard size limit may mean losing pixels");
+  }
+  const overlay = await createWatermarkOverlay(buffer, options);
+  const metadataPlan = await resolveMetadataPlan(buffer, options);
+
+  const result =
+    format === "auto"
+      ? await selectFormat(buffer, metadata, options, metadataPlan, overlay, hooks, vector)
+      : await encode(buffer, options, format, metadataPlan, overlay, hooks);
+  const missed = Boolean(options.sizeFallback && options.targetSizeKB && result.info.size > options.targetSizeKB * 1024);
+  const fitted = missed ? await fitToSize(buffer, metadata, options, result, metadataPlan, hooks) : result;
+  // An optimized SVG chosen by "auto" has no pixels to check.
+  if (!options.lossless || fitted.info.format === "svg") {
+    return withTimings(fitted, startedAt, preparedAt);
+  }
+  const lossless = await describeLossless(fitted, buffer, options, metadataPlan, overlay, hooks);
+  return withTimings({ ...fitted, info: { ...fitted.info, lossless } }, startedAt, preparedAt);
+};
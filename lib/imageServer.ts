@@ -0,0 +1,86 @@
+import { promises as fs } from "fs";
+import path from "path";
+import sharp from "sharp";
+import { ProcessingError } from "./imageProcessor";
+import { SupportedFormat } from "./types";
+
+// Next.js' default device and image sizes; anything else would let callers mint unlimited cache entries.
+const DEFAULT_WIDTHS = [16, 32, 48, 64, 96, 128, 256, 320, 384, 640, 750, 828, 1080, 1200, 1920, 2048, 3840];
+const DEFAULT_MAX_AGE_SECONDS = 86_400;
+
+export class SourceNotFoundError extends Error {
+  constructor(src: string) {
+    super(`Image not found: ${src}`);
+    this.name = "SourceNotFoundError";
+  }
+}
+
+const sourceRoot = () => path.resolve(process.env.IMAGE_SOURCE_DIR ?? path.join(process.cwd(), "public"));
+
+const parseList = (raw: string | undefined, fallback: number[]) => {
+  const values = (raw ?? "")
+    .split(",")
+    .map((value) => Number(value.trim()))
+    .filter((value) => Number.isInteger(value) && value > 0);
+  return values.length > 0 ? values : fallback;
+};
+
+export const allowedWidths = (): number[] => parseList(process.env.IMAGE_WIDTHS, DEFAULT_WIDTHS);
+
+export const imageMaxAge = (): number => {
+  const value = Number(process.env.IMAGE_CACHE_MAX_AGE);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_MAX_AGE_SECONDS;
+};
+
+/**
+ * Resolves `src` inside the source directory. Both the lexical path and the real path (after
+ * symlinks) must stay inside the root, so neither `../` nor a planted symlink can escape it.
+ */
+export const readSourceImage = async (src: string): Promise<Buffer> => {
+  if (!src || src.includes("\0") || path.isAbsolute(src)) {
+    throw new ProcessingError("src must be a relative path inside the image directory");
+  }
+
+  const root = await fs.realpath(sourceRoot()).catch(() => sourceRoot());
+  const candidate = path.resolve(root, src);
+  const inside = (target: string) => target.startsWith(`${root}${path.sep}`);
+  if (!inside(candidate)) {
+    throw new ProcessingError("src must be a relative path inside the image directory");
+  }
+
+  let resolved: string;
+  try {
+    resolved = await fs.realpath(candidate);
+  } catch {
+    throw new SourceNotFoundError(src);
+  }
+  if (!inside(resolved)) {
+    throw new ProcessingError("src must be a relative path inside the image directory");
+  }
+
+  const stat = await fs.stat(resolved);
+  if (!stat.isFile()) {
+    throw new SourceNotFoundError(src);
+  }
+  return fs.readFile(resolved);
+};
+
+const accepts = (accept: string, mime: string) =>
+  accept
+    .split(",")
+    .map((part) => part.split(";"))
+    .some(([type, ...params]) => type.trim() === mime && !params.some((param) => /^\s*q=0(\.0*)?\s*$/.test(param)));
+
+/**
+ * Chooses the output format for `fmt=auto` from the Accept header: AVIF, then WebP, then a
+ * universally supported fallback that keeps transparency (PNG) or animation (GIF).
+ */
+export const negotiateFormat = async (accept: string, buffer: Buffer): Promise<SupportedFormat> => {
+  const metadata = await sharp(buffer).metadata();
+  const animated = (metadata.pages ?? 1) > 1;
+
+  if (!animated && accepts(accept, "image/avif")) return "avif";
+  if (accepts(accept, "image/webp")) return "webp";
+  if (animated) return "gif";
+  return metadata.hasAlpha ? "png" : "jpeg";
+};
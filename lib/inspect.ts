@@ -0,0 +1,103 @@
+import exifr from "exifr";
+import sharp from "sharp";
+import { ImageInspection, MetadataFields } from "./types";
+
+const BIT_DEPTH: Record<string, number> = {
+  uchar: 8,
+  char: 8,
+  ushort: 16,
+  short: 16,
+  uint: 32,
+  int: 32,
+  float: 32,
+  double: 64,
+};
+
+const MAX_BINARY_PREVIEW = 32;
+
+// Binary blobs (maker notes, thumbnails) are summarised so the response stays small and JSON-safe.
+const toJsonValue = (value: unknown): unknown => {
+  if (value instanceof Uint8Array) {
+    return value.length <= MAX_BINARY_PREVIEW ? Array.from(value) : `<${value.length} bytes>`;
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  if (value && typeof value === "object") return toJsonFields(value as Record<string, unknown>);
+  return value;
+};
+
+const toJsonFields = (fields?: Record<string, unknown>): MetadataFields | undefined => {
+  if (!fields || Object.keys(fields).length === 0) return undefined;
+  return Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, toJsonValue(value)]));
+};
+
+/** Reads the profile description from a raw ICC profile (v2 "desc" or v4 "mluc" tag). */
+const readIccDescription = (icc: Buffer): string | undefined => {
+  if (icc.length < 132) return undefined;
+  const tagCount = icc.readUInt32BE(128);
+  for (let i = 0; i < tagCount && 144 + i * 12 <= icc.length; i++) {
+    const entry = 132 + i * 12;
+    if (icc.toString("latin1", entry, entry + 4) !== "desc") continue;
+    const offset = icc.readUInt32BE(entry + 4);
+    const type = icc.toString("latin1", offset, offset + 4);
+    if (type === "desc") {
+      const length = icc.readUInt32BE(offset + 8);
+      return icc.toString("latin1", offset + 12, offset + 12 + length).replace(/\0+$/, "") || undefined;
+    }
+    if (type === "mluc") {
+      const length = icc.readUInt32BE(offset + 20);
+      const start = offset + icc.readUInt32BE(offset + 24);
+      return Buffer.from(icc.subarray(start, start + length)).swap16().toString("utf16le") || undefined;
+    }
+  }
+  return undefined;
+};
+
+type Segments = Partial<Record<"ifd0" | "exif" | "gps" | "iptc" | "xmp" | "icc", Record<string, unknown>>>;
+
+const parseSegments = async (buffer: Buffer, exif?: Buffer): Promise<Segments> => {
+  const options = { tiff: true, exif: true, gps: true, iptc: true, xmp: true, icc: true, mergeOutput: false };
+  try {
+    return (await exifr.parse(buffer, options)) ?? {};
+  } catch {
+    // exifr does not read every container (WebP, GIF); fall back to the raw EXIF block sharp extracted.
+    if (!exif) return {};
+    const tiff = exif.subarray(0, 6).toString("latin1") === "Exif\0\0" ? exif.subarray(6) : exif;
+    try {
+      return (await exifr.parse(tiff, options)) ?? {};
+    } catch {
+      return {};
+    }
+  }
+};
+
+export const inspectImage = async (buffer: Buffer): Promise<ImageInspection> => {
+  const metadata = await sharp(buffer).metadata();
+  const segments = await parseSegments(buffer, metadata.exif);
+  const pages = metadata.pages ?? 1;
+  const iccDescription = segments.icc?.ProfileDescription ?? (metadata.icc && readIccDescription(metadata.icc));
+
+  return {
+    format: metadata.format,
+    size: buffer.length,
+    width: metadata.width,
+    height: pages > 1 ? (metadata.pageHeight ?? metadata.height) : metadata.height,
+    space: metadata.space,
+    channels: metadata.channels,
+    bitDepth: metadata.depth ? BIT_DEPTH[metadata.depth] : undefined,
+    hasAlpha: Boolean(metadata.hasAlpha),
+    iccProfileName: typeof iccDescription === "string" ? iccDescription : undefined,
+    orientation: metadata.orientation,
+    density: metadata.density,
+    isProgressive: metadata.isProgressive,
+    chromaSubsampling: metadata.chromaSubsampling,
+    pages,
+    frameDelays: pages > 1 ? metadata.delay : undefined,
+    loop: pages > 1 ? metadata.loop : undefined,
+    exif: toJsonFields({ ...segments.ifd0, ...segments.exif }),
+    gps: toJsonFields(segments.gps),
+    iptc: toJsonFields(segments.iptc),
+    xmp: toJsonFields(segments.xmp) ?? metadata.xmpAsString,
+    icc: toJsonFields(segments.icc),
+  };
+};
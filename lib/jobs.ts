@@ -0,0 +1,220 @@
+import { createWriteStream, promises as fs } from "fs";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { v4 as uuid } from "uuid";
+import { createResponsiveArchive, processResponsiveSet } from "./responsive";
+import { buildProcessReport } from "./report";
+import { processImageCached } from "./resultCache";
+import { JobSnapshot, ProcessOptions } from "./types";
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_RESULT_TTL_MINUTES = 60;
+const MAX_PENDING_JOBS = 100;
+const JOB_FILE_PATTERN = /^[0-9a-f-]{36}\./;
+
+export class JobError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "JobError";
+  }
+}
+
+interface Job {
+  snapshot: JobSnapshot;
+  options: ProcessOptions;
+  baseName: string;
+  inputPath: string;
+  controller: AbortController;
+  resultPath?: string;
+  contentType?: string;
+  fileName?: string;
+}
+
+interface Queue {
+  jobs: Map<string, Job>;
+  pending: string[];
+  running: number;
+  ready?: Promise<void>;
+}
+
+const jobsDir = () => path.resolve(process.env.JOBS_DIR ?? path.join(process.cwd(), "data", "jobs"));
+
+const positiveNumber = (raw: string | undefined, fallback: number) => {
+  const value = Number(raw);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const concurrency = () => Math.floor(positiveNumber(process.env.JOB_CONCURRENCY, DEFAULT_CONCURRENCY));
+const resultTtlMs = () => positiveNumber(process.env.JOB_RESULT_TTL_MINUTES, DEFAULT_RESULT_TTL_MINUTES) * 60_000;
+
+// Route modules can be bundled and reloaded separately; keep a single queue per process.
+const globalWithQueue = globalThis as typeof globalThis & { __imageJobQueue?: Queue };
+const queue: Queue = (globalWithQueue.__imageJobQueue ??= { jobs: new Map(), pending: [], running: 0 });
+
+// Jobs live in memory, so files left by a previous process can never be claimed; clear them once.
+const ensureReady = () => {
+  queue.ready ??= (async () => {
+    const dir = jobsDir();
+    await fs.mkdir(dir, { recursive: true });
+    const entries = await fs.readdir(dir);
+    await Promise.all(
+      entries.filter((name) => JOB_FILE_PATTERN.test(name)).map((name) => fs.rm(path.join(dir, name), { force: true }))
+    );
+  })();
+  return queue.ready;
+};
+
+const removeFile = (file?: string) => (file ? fs.rm(file, { force: true }).catch(() => undefined) : undefined);
+
+const contentTypeFor = (format: string) => (format === "svg" ? "image/svg+xml" : `image/${format}`);
+
+const finish = (job: Job, patch: Partial<JobSnapshot>) => {
+  const finishedAt = new Date();
+  job.snapshot = {
+    ...job.snapshot,
+    ...patch,
+    finishedAt: finishedAt.toISOString(),
+    expiresAt: new Date(finishedAt.getTime() + resultTtlMs()).toISOString(),
+  };
+};
+
+const sweepExpired = () => {
+  const now = Date.now();
+  for (const [id, job] of queue.jobs) {
+    if (job.snapshot.expiresAt && Date.parse(job.snapshot.expiresAt) <= now) {
+      queue.jobs.delete(id);
+      removeFile(job.resultPath);
+    }
+  }
+};
+
+const runJob = async (job: Job) => {
+  const { signal } = job.controller;
+  job.snapshot = { ...job.snapshot, status: "running", startedAt: new Date().toISOString() };
+  const hooks = {
+    signal,
+    onProgress: (progress: JobSnapshot["progress"]) => {
+      job.snapshot = { ...job.snapshot, progress };
+    },
+  };
+
+  try {
+    const input = await fs.readFile(job.inputPath);
+    const dir = jobsDir();
+
+    if (job.options.responsive) {
+      const set = await processResponsiveSet(input, { ...job.options, responsive: job.options.responsive }, job.baseName, hooks);
+      signal.throwIfAborted();
+      job.resultPath = path.join(dir, `${job.snapshot.id}.zip`);
+      await pipeline(createResponsiveArchive(set), createWriteStream(job.resultPath));
+      job.contentType = "application/zip";
+      job.fileName = `${job.baseName}-responsive.zip`;
+      const size = (await fs.stat(job.resultPath)).size;
+      finish(job, { status: "succeeded", result: { format: "zip", size, archive: true } });
+      return;
+    }
+
+    const { result, hit } = await processImageCached(input, job.options, hooks);
+    signal.throwIfAborted();
+    const extension = result.info.format || "jpg";
+    job.resultPath = path.join(dir, `${job.snapshot.id}.${extension}`);
+    await fs.writeFile(job.resultPath, result.buffer);
+    job.contentType = contentTypeFor(extension);
+    job.fileName = `${job.baseName}.${extension}`;
+    const report = buildProcessReport(job.options, input.length, result, {
+      totalMs: Date.now() - Date.parse(job.snapshot.startedAt as string),
+      cache: hit ? "HIT" : "MISS",
+    });
+    const { search: _search, timings: _timings, quality: _quality, ...summary } = result.info;
+    finish(job, { status: "succeeded", result: { ...summary, archive: false, report } });
+  } catch (error) {
+    if (signal.aborted) {
+      removeFile(job.resultPath);
+      job.resultPath = undefined;
+      finish(job, { status: "cancelled" });
+    } else {
+      console.error(`Job ${job.snapshot.id} failed:`, error);
+      finish(job, { status: "failed", error: error instanceof Error ? error.message : "Failed to process image" });
+    }
+  } finally {
+    await removeFile(job.inputPath);
+  }
+};
+
+const pump = () => {
+  while (queue.running < concurrency() && queue.pending.length > 0) {
+    const job = queue.jobs.get(queue.pending.shift() as string);
+    if (!job) continue;
+    queue.running += 1;
+    runJob(job).finally(() => {
+      queue.running -= 1;
+      pump();
+    });
+  }
+};
+
+/** Stores the upload on disk and queues it; the options must already be validated and resolved. */
+export const enqueueJob = async (buffer: Buffer, options: ProcessOptions, baseName: string): Promise<JobSnapshot> => {
+  await ensureReady();
+  sweepExpired();
+  if (queue.pending.length >= MAX_PENDING_JOBS) {
+    throw new JobError("Too many queued jobs; try again later", 503);
+  }
+
+  const id = uuid();
+  const inputPath = path.join(jobsDir(), `${id}.input`);
+  await fs.writeFile(inputPath, buffer);
+
+  const job: Job = {
+    snapshot: { id, status: "queued", createdAt: new Date().toISOString() },
+    options,
+    baseName,
+    inputPath,
+    controller: new AbortController(),
+  };
+  queue.jobs.set(id, job);
+  queue.pending.push(id);
+  pump();
+  return job.snapshot;
+};
+
+export const getJob = (id: string): JobSnapshot | undefined => {
+  sweepExpired();
+  return queue.jobs.get(id)?.snapshot;
+};
+
+export const getJobResult = (id: string): { path: string; contentType: string; fileName: string } => {
+  sweepExpired();
+  const job = queue.jobs.get(id);
+  if (!job) {
+    throw new JobError("Job not found or expired", 404);
+  }
+  if (job.snapshot.status !== "succeeded" || !job.resultPath) {
+    throw new JobError(`Job is ${job.snapshot.status}; no result to download`, 409);
+  }
+  return { path: job.resultPath, contentType: job.contentType as string, fileName: job.fileName as string };
+};
+
+/**
+ * Cancels a queued or running job. Running jobs stop at the next render boundary, since an encode
+ * already in progress cannot be interrupted. Finished jobs are removed along with their result.
+ */
+export const cancelJob = async (id: string): Promise<JobSnapshot> => {
+  const job = queue.jobs.get(id);
+  if (!job) {
+    throw new JobError("Job not found or expired", 404);
+  }
+
+  const { status } = job.snapshot;
+  if (status === "queued") {
+    queue.pending = queue.pending.filter((pendingId) => pendingId !== id);
+    await removeFile(job.inputPath);
+    finish(job, { status: "cancelled" });
+  } else if (status === "running") {
+    job.controller.abort();
+  } else {
+    queue.jobs.delete(id);
+    await removeFile(job.resultPath);
+  }
+  return job.snapshot;
+};
@@ -0,0 +1,157 @@
+import exifr from "exifr";
+import sharp from "sharp";
+import { applyColour, ColourPlan, resolveColourPlan } from "./colour";
+import { MetadataRetention, ProcessOptions, SupportedFormat } from "./types";
+
+// Descriptive text tags kept by the "safe" retention, keyed by EXIF tag id and named as libvips
+// expects them. Anything not listed (GPS, serial numbers, owner name, maker notes) is dropped.
+const SAFE_IFD0_TAGS: Record<number, string> = {
+  0x010e: "ImageDescription",
+  0x010f: "Make",
+  0x0110: "Model",
+  0x0131: "Software",
+  0x0132: "DateTime",
+  0x013b: "Artist",
+  0x8298: "Copyright",
+};
+
+const SAFE_EXIF_TAGS: Record<number, string> = {
+  0x9003: "DateTimeOriginal",
+  0x9004: "DateTimeDigitized",
+  0xa433: "LensMake",
+  0xa434: "LensModel",
+};
+
+// libvips writes no EXIF to TIFF, so there the same tags go into XMP, under the properties the
+// Metadata Working Group maps them to.
+const XMP_PROPERTIES: Record<string, { name: string; kind: "text" | "date" | "alt" | "seq" }> = {
+  ImageDescription: { name: "dc:description", kind: "alt" },
+  Artist: { name: "dc:creator", kind: "seq" },
+  Copyright: { name: "dc:rights", kind: "alt" },
+  Make: { name: "tiff:Make", kind: "text" },
+  Model: { name: "tiff:Model", kind: "text" },
+  Software: { name: "xmp:CreatorTool", kind: "text" },
+  DateTime: { name: "xmp:ModifyDate", kind: "date" },
+  DateTimeOriginal: { name: "exif:DateTimeOriginal", kind: "date" },
+  DateTimeDigitized: { name: "xmp:CreateDate", kind: "date" },
+  LensMake: { name: "exifEX:LensMake", kind: "text" },
+  LensModel: { name: "exifEX:LensModel", kind: "text" },
+};
+
+const XMP_NAMESPACES: Record<string, string> = {
+  dc: "http://purl.org/dc/elements/1.1/",
+  tiff: "http://ns.adobe.com/tiff/1.0/",
+  xmp: "http://ns.adobe.com/xap/1.0/",
+  exif: "http://ns.adobe.com/exif/1.0/",
+  exifEX: "http://cipa.jp/exif/1.0/",
+};
+
+/** How the metadata of one output is produced; resolved once per source, reused for every render. */
+export interface MetadataPlan {
+  keep: MetadataRetention;
+  exif?: sharp.Exif; // replaces the source EXIF when set
+  xmp?: string; // the kept and written descriptive tags, for TIFF output only
+  colour: ColourPlan;
+}
+
+const resolveRetention = (options: ProcessOptions): MetadataRetention =>
+  options.metadata?.keep ?? (options.stripMetadata === false ? "all" : "none");
+
+const pickTags = (source: Record<string, unknown> | undefined, tags: Record<number, string>) => {
+  const picked: Record<string, string> = {};
+  for (const [id, name] of Object.entries(tags)) {
+    const value = source?.[id];
+    if (typeof value === "string" && value.trim()) picked[name] = value;
+  }
+  return picked;
+};
+
+const readSafeExif = async (buffer: Buffer): Promise<sharp.Exif> => {
+  const { exif } = await sharp(buffer).metadata();
+  if (!exif) return {};
+  const tiff = exif.subarray(0, 6).toString("latin1") === "Exif\0\0" ? exif.subarray(6) : exif;
+  try {
+    const segments = await exifr.parse(tiff, {
+      tiff: true,
+      exif: true,
+      translateKeys: false,
+      translateValues: false,
+      reviveValues: false,
+      mergeOutput: false,
+    });
+    return { IFD0: pickTags(segments?.ifd0, SAFE_IFD0_TAGS), IFD2: pickTags(segments?.exif, SAFE_EXIF_TAGS) };
+  } catch {
+    // Unreadable EXIF is treated as absent rather than failing the whole image.
+    return {};
+  }
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// EXIF dates are "YYYY:MM:DD HH:MM:SS"; XMP wants ISO 8601. Anything else is left out.
+const xmpDate = (value: string) => {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}:\d{2}:\d{2})$/.exec(value.trim());
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}` : undefined;
+};
+
+const buildXmp = (tags: Record<string, string>): string | undefined => {
+  const properties: string[] = [];
+  for (const [tag, { name, kind }] of Object.entries(XMP_PROPERTIES)) {
+    const value = kind === "date" && tags[tag] ? xmpDate(tags[tag]) : tags[tag];
+    if (!value) continue;
+    const text = escapeXml(value);
+    if (kind === "alt") {
+      properties.push(`<${name}><rdf:Alt><rdf:li xml:lang="x-default">${text}</rdf:li></rdf:Alt></${name}>`);
+    } else if (kind === "seq") {
+      properties.push(`<${name}><rdf:Seq><rdf:li>${text}</rdf:li></rdf:Seq></${name}>`);
+    } else {
+      properties.push(`<${name}>${text}</${name}>`);
+    }
+  }
+  if (properties.length === 0) return undefined;
+  const namespaces = Object.entries(XMP_NAMESPACES)
+    .map(([prefix, uri]) => ` xmlns:${prefix}="${uri}"`)
+    .join("");
+  return [
+    '<?xpacket begin="\ufeff" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    `<rdf:Description rdf:about=""${namespaces}>${properties.join("")}</rdf:Description>`,
+    '</rdf:RDF></x:xmpmeta><?xpacket end="w"?>',
+  ].join("");
+};
+
+export const resolveMetadataPlan = async (buffer: Buffer, options: ProcessOptions): Promise<MetadataPlan> => {
+  const keep = resolveRetention(options);
+  const { copyright, artist, description } = options.metadata ?? {};
+  const written = Object.fromEntries(
+    Object.entries({ Copyright: copyright, Artist: artist, ImageDescription: description }).filter(([, value]) => value)
+  ) as Record<string, string>;
+
+  const colour = await resolveColourPlan(buffer, options);
+  // "all" reads the descriptive tags as well: they are all a TIFF output can keep.
+  const source = keep === "safe" || keep === "all" ? await readSafeExif(buffer) : {};
+  const xmp = buildXmp({ ...source.IFD0, ...source.IFD2, ...written });
+  if (keep !== "safe" && Object.keys(written).length === 0) {
+    return { keep, xmp, colour };
+  }
+  const base = keep === "safe" ? source : {};
+  return { keep, exif: { ...base, IFD0: { ...base.IFD0, ...written } }, xmp, colour };
+};
+
+// The ICC profile is metadata too: colour options decide it last, over what retention kept.
+export const applyMetadata = (pipeline: sharp.Sharp, plan: MetadataPlan, format: SupportedFormat): sharp.Sharp => {
+  let result = pipeline;
+  if (plan.keep === "all") {
+    result = result.keepMetadata();
+    result = plan.exif ? result.withExifMerge(plan.exif) : result;
+  } else {
+    if (plan.keep === "icc" || plan.keep === "safe") {
+      result = result.keepIccProfile();
+    }
+    result = plan.exif ? result.withExif(plan.exif) : result;
+  }
+  // Replaces any XMP kept from the source.
+  if (format === "tiff" && plan.xmp) result = result.withXmp(plan.xmp);
+  return applyColour(result, plan.colour, format, plan.keep);
+};
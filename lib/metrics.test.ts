@@ -0,0 +1,49 @@
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+import { computeSsim } from "./metrics";
+
+const WIDTH = 32;
+const HEIGHT = 24;
+
+// A diagonal gradient with some texture, so every window has variance.
+const image = (transform: (value: number, x: number, y: number) => number = (value) => value) =>
+  Float32Array.from({ length: WIDTH * HEIGHT }, (_, i) => {
+    const x = i % WIDTH;
+    const y = Math.floor(i / WIDTH);
+    return Math.min(255, Math.max(0, transform(4 * x + 3 * y + ((x * y) % 7) * 5, x, y)));
+  });
+
+describe("computeSsim", () => {
+  it("is 1 for identical images", () => {
+    assert.equal(computeSsim(image(), image(), WIDTH, HEIGHT), 1);
+  });
+
+  it("is symmetric", () => {
+    const a = image();
+    const b = image((value, x) => value + (x % 2 ? 12 : -12));
+    assert.equal(computeSsim(a, b, WIDTH, HEIGHT), computeSsim(b, a, WIDTH, HEIGHT));
+  });
+
+  it("falls as the distortion grows", () => {
+    const source = image();
+    const noise = (amount: number) => image((value, x, y) => value + (((x * 31 + y * 17) % 5) - 2) * amount);
+    const slight = computeSsim(source, noise(2), WIDTH, HEIGHT);
+    const heavy = computeSsim(source, noise(20), WIDTH, HEIGHT);
+    assert.ok(slight < 1 && slight > 0.9, `slight noise scored ${slight}`);
+    assert.ok(heavy < slight, `heavy noise scored ${heavy}, slight ${slight}`);
+  });
+
+  it("scores a flat image against a textured one low", () => {
+    const flat = new Float32Array(WIDTH * HEIGHT).fill(128);
+    assert.ok(computeSsim(image(), flat, WIDTH, HEIGHT) < 0.2);
+  });
+
+  it("handles images smaller than the window", () => {
+    const tiny = Float32Array.from([10, 20, 30, 40, 50, 60]);
+    assert.equal(computeSsim(tiny, tiny, 3, 2), 1);
+  });
+
+  it("rejects inputs of different sizes", () => {
+    assert.throws(() => computeSsim(image(), new Float32Array(10), WIDTH, HEIGHT), /same dimensions/);
+  });
+});
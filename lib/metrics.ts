@@ -0,0 +1,108 @@
+// Pure pixel metrics. Kept free of sharp so both the server and the browser can use them.
+
+type Pixels = ArrayLike<number>;
+
+const SSIM_WINDOW = 8;
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+/** Converts interleaved pixels (grey, grey+alpha, RGB or RGBA) to a single luma channel. */
+export const toLuma = (data: Pixels, channels: number): Float32Array => {
+  const pixels = Math.floor(data.length / channels);
+  const luma = new Float32Array(pixels);
+  for (let i = 0; i < pixels; i += 1) {
+    const offset = i * channels;
+    luma[i] =
+      channels >= 3
+        ? 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]
+        : data[offset];
+  }
+  return luma;
+};
+
+/**
+ * Mean SSIM of two single-channel images of identical size, using 8×8 windows with a
+ * 4px stride. Returns a value in [-1, 1] where 1 means identical.
+ */
+export const computeSsim = (a: Pixels, b: Pixels, width: number, height: number): number => {
+  if (a.length !== b.length || a.length < width * height) {
+    throw new Error("SSIM inputs must have the same dimensions");
+  }
+
+  const windowW = Math.min(SSIM_WINDOW, width);
+  const windowH = Math.min(SSIM_WINDOW, height);
+  const stepX = Math.max(1, Math.floor(windowW / 2));
+  const stepY = Math.max(1, Math.floor(windowH / 2));
+  const n = windowW * windowH;
+
+  let total = 0;
+  let count = 0;
+  for (let y = 0; y + windowH <= height; y += stepY) {
+    for (let x = 0; x + windowW <= width; x += stepX) {
+      let sumA = 0;
+      let sumB = 0;
+      let sumAA = 0;
+      let sumBB = 0;
+      let sumAB = 0;
+      for (let wy = 0; wy < windowH; wy += 1) {
+        let index = (y + wy) * width + x;
+        for (let wx = 0; wx < windowW; wx += 1, index += 1) {
+          const va = a[index];
+          const vb = b[index];
+          sumA += va;
+          sumB += vb;
+          sumAA += va * va;
+          sumBB += vb * vb;
+          sumAB += va * vb;
+        }
+      }
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const cov = sumAB / n - meanA * meanB;
+      total +=
+        ((2 * meanA * meanB + C1) * (2 * cov + C2)) /
+        ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+      count += 1;
+    }
+  }
+
+  return count > 0 ? total / count : 1;
+};
+
+/** Peak signal-to-noise ratio in dB for 8-bit samples; Infinity when the inputs are identical. */
+export const computePsnr = (a: Pixels, b: Pixels): number => {
+  if (a.length !== b.length) {
+    throw new Error("PSNR inputs must have the same length");
+  }
+  let squaredError = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    const diff = a[i] - b[i];
+    squaredError += diff * diff;
+  }
+  const mse = squaredError / a.length;
+  return mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+};
+
+/**
+ * Compares two RGBA images of identical size. Colour under pixels that are fully transparent in
+ * both is ignored, since lossless encoders are free to discard it.
+ */
+export const comparePixels = (a: Pixels, b: Pixels): { differingPixels: number; maxDifference: number } => {
+  if (a.length !== b.length) {
+    throw new Error("Pixel comparison inputs must have the same length");
+  }
+  let differingPixels = 0;
+  let maxDifference = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    if (a[i + 3] === 0 && b[i + 3] === 0) continue;
+    let difference = 0;
+    for (let channel = 0; channel < 4; channel += 1) {
+      difference = Math.max(difference, Math.abs(a[i + channel] - b[i + channel]));
+    }
+    if (difference > 0) differingPixels += 1;
+    maxDifference = Math.max(maxDifference, difference);
+  }
+  return { differingPixels, maxDifference };
+};
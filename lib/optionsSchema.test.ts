@@ -0,0 +1,58 @@
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+import { MAX_QUALITY, MIN_QUALITY, processOptionsSchema, validateProcessOptions } from "./optionsSchema";
+import { ValidationError } from "./validation";
+
+const fieldsRejected = (input: unknown) => {
+  try {
+    validateProcessOptions(input, "options");
+  } catch (error) {
+    assert.ok(error instanceof ValidationError);
+    return error.errors.map(({ field }) => field);
+  }
+  return [];
+};
+
+describe("validateProcessOptions", () => {
+  it("accepts an empty object and leaves unset fields out", () => {
+    assert.deepEqual(validateProcessOptions({}), {});
+    assert.deepEqual(validateProcessOptions({ width: "", height: null, targetSizeKB: undefined }), {});
+  });
+
+  it("coerces multipart form values", () => {
+    assert.deepEqual(validateProcessOptions({ format: "WEBP", quality: "80", keepAspectRatio: "false" }), {
+      format: "webp",
+      quality: 80,
+      keepAspectRatio: false,
+    });
+  });
+
+  it("rejects unknown options, at any depth", () => {
+    assert.deepEqual(fieldsRejected({ qualty: 80, metadata: { keep: "all", gps: true } }), [
+      "options.qualty",
+      "options.metadata.gps",
+    ]);
+  });
+
+  it("bounds quality by the processor's limits", () => {
+    assert.equal(processOptionsSchema.fields.quality.min, MIN_QUALITY);
+    assert.deepEqual(validateProcessOptions({ quality: MIN_QUALITY }), { quality: MIN_QUALITY });
+    assert.deepEqual(fieldsRejected({ quality: MIN_QUALITY - 1 }), ["options.quality"]);
+    assert.deepEqual(fieldsRejected({ quality: MAX_QUALITY + 1 }), ["options.quality"]);
+  });
+
+  it("rejects a zero size target rather than treating it as off", () => {
+    assert.deepEqual(fieldsRejected({ targetSizeKB: 0 }), ["options.targetSizeKB"]);
+  });
+
+  it("checks nested enums, patterns and arrays", () => {
+    assert.deepEqual(
+      fieldsRejected({
+        metadata: { keep: "most" },
+        background: "red",
+        responsive: { widths: [320, 0], formats: ["webp"] },
+      }),
+      ["options.metadata.keep", "options.background", "options.responsive.widths[1]"]
+    );
+  });
+});
@@ -0,0 +1,267 @@
+import {
+  ChromaSubsampling,
+  ColourSpace,
+  FitMode,
+  MetadataRetention,
+  OutputFormat,
+  ProcessOptions,
+  ResizePosition,
+  SizeFallbackStep,
+  SupportedFormat,
+  TiffCompression,
+  TiffEncoderCompression,
+  TiffPredictor,
+  WatermarkAnchor,
+} from "./types";
+import { ObjectSchema, validate } from "./validation";
+
+// Single source of truth for option limits: the API validates against it and the UI reads its bounds.
+
+export const SUPPORTED_FORMATS: readonly SupportedFormat[] = ["jpeg", "png", "webp", "gif", "avif", "tiff", "svg"];
+export const OUTPUT_FORMATS: readonly OutputFormat[] = [...SUPPORTED_FORMATS, "auto"];
+
+export const MAX_DIMENSION = 16384;
+
+// Below 10 every encoder falls apart, so the quality searches bottom out there as well.
+export const MIN_QUALITY = 10;
+export const MAX_QUALITY = 100;
+
+export const FIT_MODES: readonly FitMode[] = ["cover", "contain", "inside", "outside", "fill"];
+
+export const RESIZE_POSITIONS: readonly ResizePosition[] = [
+  "centre",
+  "top",
+  "right top",
+  "right",
+  "right bottom",
+  "bottom",
+  "left bottom",
+  "left",
+  "left top",
+  "entropy",
+  "attention",
+];
+
+export const COLOUR_PATTERN = /^(#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})|transparent)$/i;
+
+export const responsiveOptionsSchema = {
+  type: "object",
+  fields: {
+    widths: {
+      type: "array",
+      items: { type: "number", min: 1, max: MAX_DIMENSION, integer: true },
+      minItems: 1,
+      maxItems: 12,
+    },
+    formats: {
+      type: "array",
+      items: { type: "enum", values: SUPPORTED_FORMATS },
+      minItems: 1,
+      maxItems: SUPPORTED_FORMATS.length,
+    },
+    sizes: { type: "string", maxLength: 200 },
+  },
+  required: ["widths", "formats"],
+} satisfies ObjectSchema;
+
+// Percent crops use the same fields; the processor clamps the rectangle to the image bounds.
+export const cropSchema = {
+  type: "object",
+  fields: {
+    left: { type: "number", min: 0, max: MAX_DIMENSION },
+    top: { type: "number", min: 0, max: MAX_DIMENSION },
+    width: { type: "number", min: 0.01, max: MAX_DIMENSION },
+    height: { type: "number", min: 0.01, max: MAX_DIMENSION },
+    unit: { type: "enum", values: ["px", "percent"] },
+  },
+  required: ["left", "top", "width", "height"],
+} satisfies ObjectSchema;
+
+export const WATERMARK_ANCHORS: readonly WatermarkAnchor[] = [
+  "top-left",
+  "top",
+  "top-right",
+  "left",
+  "center",
+  "right",
+  "bottom-left",
+  "bottom",
+  "bottom-right",
+];
+
+export const MAX_WATERMARK_IMAGE_LENGTH = 3_000_000; // ~2MB logo once base64-encoded
+
+export const watermarkSchema = {
+  type: "object",
+  fields: {
+    text: { type: "string", maxLength: 200 },
+    image: { type: "string", maxLength: MAX_WATERMARK_IMAGE_LENGTH },
+    fontSize: { type: "number", min: 0.5, max: 50 },
+    color: { type: "string", maxLength: 11, pattern: COLOUR_PATTERN },
+    scale: { type: "number", min: 1, max: 100 },
+    opacity: { type: "number", min: 0, max: 1 },
+    anchor: { type: "enum", values: WATERMARK_ANCHORS },
+    margin: { type: "number", min: 0, max: 25 },
+    tile: { type: "boolean" },
+  },
+} satisfies ObjectSchema;
+
+export const METADATA_RETENTION: readonly MetadataRetention[] = ["none", "icc", "safe", "all"];
+
+export const metadataSchema = {
+  type: "object",
+  fields: {
+    keep: { type: "enum", values: METADATA_RETENTION },
+    copyright: { type: "string", maxLength: 200 },
+    artist: { type: "string", maxLength: 200 },
+    description: { type: "string", maxLength: 1000 },
+  },
+} satisfies ObjectSchema;
+
+export const animationSchema = {
+  type: "object",
+  fields: {
+    frame: { type: "number", min: 0, max: 9999, integer: true },
+    keepEvery: { type: "number", min: 1, max: 100, integer: true },
+    maxFps: { type: "number", min: 1, max: 100 },
+    maxFrames: { type: "number", min: 1, max: 10_000, integer: true },
+    loop: { type: "number", min: 0, max: 65535, integer: true },
+    delay: { type: "number", min: 10, max: 65535, integer: true },
+  },
+} satisfies ObjectSchema;
+
+export const SIZE_FALLBACK_STEPS: readonly SizeFallbackStep[] = ["subsample", "effort", "format", "downscale"];
+
+export const sizeFallbackSchema = {
+  type: "object",
+  fields: {
+    steps: {
+      type: "array",
+      items: { type: "enum", values: SIZE_FALLBACK_STEPS },
+      maxItems: SIZE_FALLBACK_STEPS.length,
+    },
+    minScale: { type: "number", min: 0.1, max: 1 },
+  },
+} satisfies ObjectSchema;
+
+export const paletteSchema = {
+  type: "object",
+  fields: {
+    quantize: { type: "boolean" },
+    colours: { type: "number", min: 2, max: 256, integer: true },
+    dither: { type: "number", min: 0, max: 1 },
+    alphaAware: { type: "boolean" },
+  },
+} satisfies ObjectSchema;
+
+export const TIFF_COMPRESSIONS: readonly TiffCompression[] = ["deflate", "zstd"];
+
+export const losslessSchema = {
+  type: "object",
+  fields: {
+    nearLossless: { type: "boolean" },
+    compression: { type: "enum", values: TIFF_COMPRESSIONS },
+    verify: { type: "boolean" },
+  },
+} satisfies ObjectSchema;
+
+export const COLOUR_SPACES: readonly ColourSpace[] = ["srgb", "p3", "keep", "grayscale"];
+
+export const colourSchema = {
+  type: "object",
+  fields: {
+    space: { type: "enum", values: COLOUR_SPACES },
+    embedProfile: { type: "boolean" },
+    keepBitDepth: { type: "boolean" },
+  },
+} satisfies ObjectSchema;
+
+export const CHROMA_SUBSAMPLINGS: readonly ChromaSubsampling[] = ["4:2:0", "4:4:4"];
+export const TIFF_ENCODER_COMPRESSIONS: readonly TiffEncoderCompression[] = ["lzw", "deflate", "zstd", "packbits", "jpeg", "none"];
+export const TIFF_PREDICTORS: readonly TiffPredictor[] = ["horizontal", "float", "none"];
+
+export const encoderSchema = {
+  type: "object",
+  fields: {
+    jpeg: {
+      type: "object",
+      fields: {
+        chromaSubsampling: { type: "enum", values: CHROMA_SUBSAMPLINGS },
+        progressive: { type: "boolean" },
+        optimiseScans: { type: "boolean" },
+        trellisQuantisation: { type: "boolean" },
+        overshootDeringing: { type: "boolean" },
+        quantisationTable: { type: "number", min: 0, max: 8, integer: true },
+      },
+    },
+    webp: {
+      type: "object",
+      fields: {
+        effort: { type: "number", min: 0, max: 6, integer: true },
+        alphaQuality: { type: "number", min: 0, max: 100, integer: true },
+        smartSubsample: { type: "boolean" },
+      },
+    },
+    avif: {
+      type: "object",
+      fields: {
+        effort: { type: "number", min: 0, max: 9, integer: true },
+        bitdepth: { type: "number", min: 8, max: 12, integer: true, step: 2 },
+        chromaSubsampling: { type: "enum", values: CHROMA_SUBSAMPLINGS },
+      },
+    },
+    tiff: {
+      type: "object",
+      fields: {
+        compression: { type: "enum", values: TIFF_ENCODER_COMPRESSIONS },
+        predictor: { type: "enum", values: TIFF_PREDICTORS },
+        tile: { type: "boolean" },
+        tileSize: { type: "number", min: 16, max: 1024, integer: true, step: 16 },
+      },
+    },
+  },
+} satisfies ObjectSchema;
+
+export const svgSchema = {
+  type: "object",
+  fields: {
+    density: { type: "number", min: 1, max: 2400 },
+    precision: { type: "number", min: 0, max: 8, integer: true },
+  },
+} satisfies ObjectSchema;
+
+export const processOptionsSchema = {
+  type: "object",
+  fields: {
+    format: { type: "enum", values: OUTPUT_FORMATS },
+    quality: { type: "number", min: MIN_QUALITY, max: MAX_QUALITY, integer: true },
+    targetSizeKB: { type: "number", min: 1, max: 100_000 },
+    targetQualityScore: { type: "number", min: 0.5, max: 1 },
+    sizeFallback: sizeFallbackSchema,
+    width: { type: "number", min: 1, max: MAX_DIMENSION, integer: true },
+    height: { type: "number", min: 1, max: MAX_DIMENSION, integer: true },
+    keepAspectRatio: { type: "boolean" },
+    fit: { type: "enum", values: FIT_MODES },
+    position: { type: "enum", values: RESIZE_POSITIONS },
+    stripMetadata: { type: "boolean" },
+    metadata: metadataSchema,
+    presetId: { type: "string", maxLength: 64 },
+    responsive: responsiveOptionsSchema,
+    autoOrient: { type: "boolean" },
+    crop: cropSchema,
+    flipHorizontal: { type: "boolean" },
+    flipVertical: { type: "boolean" },
+    rotate: { type: "number", min: -360, max: 360 },
+    background: { type: "string", maxLength: 11, pattern: COLOUR_PATTERN },
+    watermark: watermarkSchema,
+    animation: animationSchema,
+    svg: svgSchema,
+    palette: paletteSchema,
+    lossless: losslessSchema,
+    encoder: encoderSchema,
+    colour: colourSchema,
+  },
+} satisfies ObjectSchema;
+
+export const validateProcessOptions = (input: unknown, path = ""): ProcessOptions =>
+  validate<ProcessOptions>(processOptionsSchema, input, path);
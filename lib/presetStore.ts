@@ -0,0 +1,41 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Preset } from "./types";
+
+const storePath = () =>
+  path.resolve(process.env.PRESETS_FILE ?? path.join(process.cwd(), "data", "presets.json"));
+
+// Serializes read-modify-write cycles so concurrent requests cannot drop each other's changes.
+let queue: Promise<unknown> = Promise.resolve();
+
+export const readCustomPresets = async (): Promise<Preset[]> => {
+  try {
+    const raw = await fs.readFile(storePath(), "utf8");
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+};
+
+const writeCustomPresets = async (presets: Preset[]): Promise<void> => {
+  const file = storePath();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Write-then-rename keeps the store intact if the process dies mid-write.
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(presets, null, 2));
+  await fs.rename(temp, file);
+};
+
+export const updateCustomPresets = <T>(
+  mutate: (presets: Preset[]) => { presets: Preset[]; result: T }
+): Promise<T> => {
+  const run = queue.then(async () => {
+    const { presets, result } = mutate(await readCustomPresets());
+    await writeCustomPresets(presets);
+    return result;
+  });
+  queue = run.catch(() => undefined);
+  return run;
+};
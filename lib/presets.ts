@@ -1,4 +1,7 @@
-import { Preset, ProcessOptions } from "./types";
+import { validateProcessOptions } from "./optionsSchema";
+import { readCustomPresets, updateCustomPresets } from "./presetStore";
+import { Preset, PresetBundle, ProcessOptions } from "./types";
+import { FieldError, ValidationError } from "./validation";
 
 const presets: Preset[] = [
   {
@@ -9,6 +12,7 @@ const presets: Preset[] = [
       quality: 70,
       targetSizeKB: 300,
       stripMetadata: true,
+      colour: { space: "srgb", embedProfile: false },
     },
   },
   {
@@ -27,39 +31,61 @@ const presets: Preset[] = [
     options: {
       quality: 85,
       stripMetadata: true,
+      colour: { space: "srgb" },
     },
   },
   {
     id: "thumbnail",
     name: "Thumbnail",
-    description: "Small preview images with metadata stripped.",
+    description: "Exact 320×320 squares, smart-cropped around the most interesting region, with metadata stripped.",
     options: {
       width: 320,
       height: 320,
       keepAspectRatio: true,
+      fit: "cover",
+      position: "attention",
       quality: 70,
       stripMetadata: true,
+      colour: { space: "srgb", embedProfile: false },
     },
   },
   {
     id: "web-optimized",
     name: "Web Optimized",
-    description: "Convert to WebP, strip metadata, and keep size small for fast loading.",
+    description: "Convert to WebP in sRGB, strip metadata, and keep size small for fast loading.",
     options: {
       format: "webp",
       quality: 75,
       targetSizeKB: 400,
       stripMetadata: true,
+      colour: { space: "srgb", embedProfile: false },
+    },
+  },
+  {
+    id: "responsive-set",
+    name: "Responsive Set",
+    description: "Generate 320/640/1280px variants in AVIF, WebP and JPEG with a ready-to-paste <picture> snippet (ZIP download).",
+    options: {
+      quality: 75,
+      stripMetadata: true,
+      colour: { space: "srgb" },
+      responsive: {
+        widths: [320, 640, 1280],
+        formats: ["avif", "webp", "jpeg"],
+      },
     },
   },
   {
     id: "archive",
     name: "Professional Archive",
-    description: "TIFF format for long-term archival storage. Lossless quality, all metadata preserved, industry standard format.",
+    description:
+      "TIFF format for long-term archival storage. Lossless quality and 16-bit depth, keeps the colour profile, and the copyright, author and camera details as XMP (TIFF carries no EXIF), but drops GPS and serial numbers.",
     options: {
       format: "tiff",
       quality: 100,
-      stripMetadata: false,
+      metadata: { keep: "safe" },
+      lossless: {},
+      colour: { space: "keep", keepBitDepth: true },
     },
   },
   {
@@ -69,21 +95,176 @@ const presets: Preset[] = [
     options: {
       quality: 100,
       stripMetadata: false,
+      lossless: {},
       // No width/height - preserves original dimensions
       // No targetSizeKB - no compression, just format conversion
     },
   },
 ];
 
-export const listPresets = (): Preset[] => presets;
+export class PresetError extends Error {
+  constructor(message: string, public readonly status: number, public readonly details?: FieldError[]) {
+    super(message);
+    this.name = "PresetError";
+  }
+}
+
+const PRESET_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+const isBuiltInId = (id: string) => presets.some((preset) => preset.id === id);
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 64);
+
+// A preset's own id, or else one derived from its name.
+const resolvePresetId = (raw: Partial<Preset>) =>
+  typeof raw.id === "string" && raw.id ? raw.id : slugify(typeof raw.name === "string" ? raw.name.trim() : "");
+
+// Validates user-supplied preset input and returns the normalized preset to store.
+const normalizeCustomPreset = (input: unknown): Preset => {
+  if (!input || typeof input !== "object") {
+    throw new PresetError("Preset must be an object", 400);
+  }
+  const raw = input as Partial<Preset>;
+  const errors: FieldError[] = [];
+
+  const name = typeof raw.name === "string" ? raw.name.trim() : "";
+  if (!name || name.length > 80) {
+    errors.push({ field: "name", reason: "is required", allowed: "string up to 80 characters" });
+  }
+
+  const id = resolvePresetId(raw);
+  if (!PRESET_ID_PATTERN.test(id)) {
+    errors.push({ field: "id", reason: "has an invalid format", allowed: "lowercase letters, digits and dashes" });
+  }
+
+  const description = typeof raw.description === "string" ? raw.description.trim() : "";
+  if (description.length > 300) {
+    errors.push({ field: "description", reason: "is too long", allowed: "string up to 300 characters" });
+  }
+
+  let options: ProcessOptions = {};
+  try {
+    options = validateProcessOptions(raw.options ?? {}, "options");
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    errors.push(...error.errors);
+  }
+  if (options.presetId !== undefined) {
+    errors.push({ field: "options.presetId", reason: "is not allowed inside a preset" });
+  }
+
+  if (errors.length > 0) {
+    throw new PresetError("Invalid preset", 400, errors);
+  }
+  if (isBuiltInId(id)) {
+    throw new PresetError(`Preset id "${id}" is reserved by a built-in preset`, 409);
+  }
+
+  return { id, name, description, options, custom: true };
+};
+
+export const listPresets = async (): Promise<Preset[]> => [
+  ...presets,
+  ...(await readCustomPresets()).map((preset) => ({ ...preset, custom: true })),
+];
+
+export const createCustomPreset = async (input: unknown): Promise<Preset> => {
+  const preset = normalizeCustomPreset(input);
+  return updateCustomPresets((stored) => {
+    if (stored.some((existing) => existing.id === preset.id)) {
+      throw new PresetError(`Preset "${preset.id}" already exists`, 409);
+    }
+    return { presets: [...stored, preset], result: preset };
+  });
+};
+
+export const updateCustomPreset = async (input: unknown): Promise<Preset> => {
+  const preset = normalizeCustomPreset(input);
+  return updateCustomPresets((stored) => {
+    if (!stored.some((existing) => existing.id === preset.id)) {
+      throw new PresetError(`Preset "${preset.id}" not found`, 404);
+    }
+    return {
+      presets: stored.map((existing) => (existing.id === preset.id ? preset : existing)),
+      result: preset,
+    };
+  });
+};
+
+export const deleteCustomPreset = async (id: string): Promise<void> => {
+  if (isBuiltInId(id)) {
+    throw new PresetError("Built-in presets cannot be deleted", 409);
+  }
+  return updateCustomPresets((stored) => {
+    if (!stored.some((existing) => existing.id === id)) {
+      throw new PresetError(`Preset "${id}" not found`, 404);
+    }
+    return { presets: stored.filter((existing) => existing.id !== id), result: undefined };
+  });
+};
+
+export const exportPresetBundle = async (): Promise<PresetBundle> => ({
+  version: 1,
+  exportedAt: new Date().toISOString(),
+  presets: (await readCustomPresets()).map(({ custom: _custom, ...preset }) => preset),
+});
+
+/**
+ * Imports every preset in a bundle. Presets whose id already exists are replaced only
+ * when `overwrite` is set; built-in ids are always skipped.
+ */
+export const importPresetBundle = async (
+  bundle: unknown,
+  overwrite = false
+): Promise<{ imported: string[]; skipped: string[] }> => {
+  const entries = (bundle as Partial<PresetBundle> | null)?.presets;
+  if (!Array.isArray(entries)) {
+    throw new PresetError("Bundle must contain a presets array", 400);
+  }
+
+  const skipped: string[] = [];
+  const incoming: Preset[] = [];
+  entries.forEach((entry, index) => {
+    try {
+      incoming.push(normalizeCustomPreset(entry));
+    } catch (error) {
+      if (error instanceof PresetError && error.status === 409) {
+        skipped.push(resolvePresetId(entry as Partial<Preset>));
+        return;
+      }
+      if (error instanceof PresetError) {
+        throw new PresetError(`Invalid preset at index ${index}`, 400, error.details);
+      }
+      throw error;
+    }
+  });
+
+  return updateCustomPresets((stored) => {
+    const byId = new Map(stored.map((preset) => [preset.id, preset]));
+    const imported: string[] = [];
+    for (const preset of incoming) {
+      if (byId.has(preset.id) && !overwrite) {
+        skipped.push(preset.id);
+        continue;
+      }
+      byId.set(preset.id, preset);
+      imported.push(preset.id);
+    }
+    return { presets: Array.from(byId.values()), result: { imported, skipped } };
+  });
+};
 
-export const resolvePresetOptions = (
+export const resolvePresetOptions = async (
   presetId: string | undefined,
   options: ProcessOptions
-): ProcessOptions => {
+): Promise<ProcessOptions> => {
   if (!presetId) return options;
 
-  const preset = presets.find((p) => p.id === presetId);
+  const preset = (await listPresets()).find((p) => p.id === presetId);
   if (!preset) return options;
 
   return {
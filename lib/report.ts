@@ -0,0 +1,60 @@
+import { LosslessResult, ProcessOptions, ProcessReport, ProcessResult } from "./types";
+
+// An uploaded logo is a data URL that can run to megabytes; the report only needs to say it was there.
+const summariseOptions = (options: ProcessOptions): ProcessOptions => {
+  const image = options.watermark?.image;
+  if (!image) return options;
+  const base64 = image.slice(image.indexOf(",") + 1);
+  return { ...options, watermark: { ...options.watermark, image: `<${Math.floor((base64.length * 3) / 4)} bytes>` } };
+};
+
+/**
+ * Summarises one processed output: the options it was made with, how the quality search went
+ * and whether the requested targets were met.
+ */
+export const buildProcessReport = (
+  options: ProcessOptions,
+  inputBytes: number,
+  result: ProcessResult,
+  request: { totalMs: number; cache?: "HIT" | "MISS" }
+): ProcessReport => {
+  const { info } = result;
+  const { targetSizeKB, targetQualityScore } = options;
+  const target =
+    targetSizeKB || targetQualityScore
+      ? {
+          sizeKB: targetSizeKB,
+          qualityScore: targetQualityScore,
+          met:
+            (!targetSizeKB || info.size <= targetSizeKB * 1024) &&
+            (!targetQualityScore || (info.qualityScore ?? 0) >= targetQualityScore),
+        }
+      : undefined;
+
+  return {
+    options: summariseOptions(options),
+    format: info.format,
+    quality: info.quality,
+    width: info.width,
+    height: info.height,
+    inputBytes,
+    outputBytes: info.size,
+    compressionRatio: info.size > 0 ? Number((inputBytes / info.size).toFixed(3)) : 0,
+    qualityScore: info.qualityScore,
+    target,
+    search: info.search ?? [],
+    candidates: info.candidates,
+    fallback: info.fallback,
+    lossless: info.lossless,
+    timings: { prepareMs: info.timings?.prepareMs, encodeMs: info.timings?.encodeMs, totalMs: Math.round(request.totalMs) },
+    cache: request.cache,
+  };
+};
+
+/** `X-Lossless` header value, e.g. `lossless; identical` or `near-lossless; differing=1204; max=2`. */
+export const losslessHeader = ({ mode, verification }: LosslessResult): string => {
+  if (!verification) return mode;
+  return verification.identical
+    ? `${mode}; identical`
+    : `${mode}; differing=${verification.differingPixels}; max=${verification.maxDifference}`;
+};
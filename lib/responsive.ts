@@ -0,0 +1,126 @@
+import { ZipArchive } from "archiver";
+import sharp from "sharp";
+import { ProcessingError, prepareSource, processImage } from "./imageProcessor";
+import {
+  ProcessHooks,
+  ProcessOptions,
+  ResponsiveOptions,
+  ResponsiveSetResult,
+  ResponsiveVariant,
+  SupportedFormat,
+} from "./types";
+
+const FALLBACK_FORMATS: SupportedFormat[] = ["jpeg", "png", "gif"];
+// Browsers take the first <source> they support, so the smallest encodings must come first.
+const SOURCE_PREFERENCE: SupportedFormat[] = ["avif", "webp"];
+
+const sourceRank = (format: SupportedFormat) => {
+  const rank = SOURCE_PREFERENCE.indexOf(format);
+  return rank === -1 ? SOURCE_PREFERENCE.length : rank;
+};
+
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+
+// Widths wider than the source collapse to the source width, so the set never upscales.
+const resolveWidths = (requested: number[], sourceWidth?: number): number[] => {
+  const clamped = requested
+    .filter((width) => Number.isFinite(width) && width > 0)
+    .map((width) => Math.round(sourceWidth ? Math.min(width, sourceWidth) : width));
+  return Array.from(new Set(clamped)).sort((a, b) => a - b);
+};
+
+const buildPictureHtml = (variants: ResponsiveVariant[], formats: SupportedFormat[], sizes: string): string => {
+  const srcsetFor = (format: SupportedFormat) =>
+    variants
+      .filter((variant) => variant.format === format)
+      .map((variant) => `${variant.file} ${variant.width}w`)
+      .join(", ");
+
+  const fallbackFormat = FALLBACK_FORMATS.find((format) => formats.includes(format)) ?? formats[formats.length - 1];
+  const fallbackVariants = variants.filter((variant) => variant.format === fallbackFormat);
+  const largest = fallbackVariants[fallbackVariants.length - 1];
+
+  const sources = formats
+    .filter((format) => format !== fallbackFormat)
+    .sort((a, b) => sourceRank(a) - sourceRank(b))
+    .map(
+      (format) =>
+        `  <source type="image/${format}" srcset="${escapeAttribute(srcsetFor(format))}" sizes="${escapeAttribute(sizes)}">`
+    );
+
+  const img =
+    `  <img src="${escapeAttribute(largest.file)}" srcset="${escapeAttribute(srcsetFor(fallbackFormat))}" ` +
+    `sizes="${escapeAttribute(sizes)}" width="${largest.width}" height="${largest.height}" alt="" loading="lazy" decoding="async">`;
+
+  return ["<picture>", ...sources, img, "</picture>"].join("\n");
+};
+
+export const processResponsiveSet = async (
+  buffer: Buffer,
+  options: ProcessOptions & { responsive: ResponsiveOptions },
+  baseName = "image",
+  hooks: ProcessHooks = {}
+): Promise<ResponsiveSetResult> => {
+  hooks.onProgress?.({ stage: "preparing" });
+  const { responsive, ...requested } = options;
+  // Crop and rotation change the source width, so apply them once before planning the widths.
+  // The widest variant is passed along so SVG sources are rasterized large enough for it.
+  const { buffer: source, options: rest } = await prepareSource(buffer, {
+    ...requested,
+    width: Math.max(...responsive.widths),
+  });
+  const metadata = await sharp(source).metadata();
+  const sourceWidth = rest.autoOrient === false ? metadata.width : (metadata.autoOrient?.width ?? metadata.width);
+  const widths = resolveWidths(responsive.widths, sourceWidth);
+  const formats = Array.from(new Set(responsive.formats));
+
+  if (widths.length === 0 || formats.length === 0) {
+    throw new ProcessingError("Responsive set needs at least one width and one format");
+  }
+
+  const variants: ResponsiveSetResult["variants"] = [];
+  for (const format of formats) {
+    for (const width of widths) {
+      hooks.signal?.throwIfAborted();
+      // A per-variant size target is meaningless across widths, so only quality carries over.
+      const result = await processImage(source, {
+        ...rest,
+        format,
+        width,
+        height: undefined,
+        keepAspectRatio: true,
+        targetSizeKB: undefined,
+      });
+      const variantWidth = result.info.width ?? width;
+      variants.push({
+        file: `${baseName}-${variantWidth}w.${format}`,
+        width: variantWidth,
+        height: result.info.height ?? 0,
+        bytes: result.info.size,
+        format,
+        buffer: result.buffer,
+      });
+      hooks.onProgress?.({ stage: "variants", iteration: variants.length, maxIterations: formats.length * widths.length });
+    }
+  }
+
+  const manifest = variants.map(({ buffer: _buffer, ...variant }) => variant);
+  return {
+    variants,
+    manifest,
+    html: buildPictureHtml(manifest, formats, responsive.sizes ?? "100vw"),
+  };
+};
+
+/** Packs a responsive set as a ZIP of the variants plus manifest.json and picture.html. */
+export const createResponsiveArchive = (set: ResponsiveSetResult): ZipArchive => {
+  const archive = new ZipArchive({ zlib: { level: 9 } });
+  for (const variant of set.variants) {
+    archive.append(variant.buffer, { name: variant.file, store: true });
+  }
+  archive.append(JSON.stringify({ variants: set.manifest, html: set.html }, null, 2), { name: "manifest.json" });
+  archive.append(`${set.html}\n`, { name: "picture.html" });
+  archive.finalize().catch((zipError) => console.error("Responsive archive error:", zipError));
+  return archive;
+};
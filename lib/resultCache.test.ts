@@ -0,0 +1,38 @@
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+import { cacheKeyFor } from "./resultCache";
+
+const input = Buffer.from("image bytes");
+
+describe("cacheKeyFor", () => {
+  it("does not depend on key order, at any depth", () => {
+    assert.equal(
+      cacheKeyFor(input, { format: "webp", quality: 80, metadata: { keep: "safe", copyright: "ACME" } }),
+      cacheKeyFor(input, { metadata: { copyright: "ACME", keep: "safe" }, quality: 80, format: "webp" })
+    );
+  });
+
+  it("ignores presetId and unset fields", () => {
+    const key = cacheKeyFor(input, { format: "avif", quality: 60 });
+    assert.equal(cacheKeyFor(input, { presetId: "web-optimized", format: "avif", quality: 60 }), key);
+    assert.equal(cacheKeyFor(input, { format: "avif", quality: 60, width: undefined }), key);
+  });
+
+  it("changes with the options and with the input bytes", () => {
+    const key = cacheKeyFor(input, { format: "jpeg", quality: 80 });
+    assert.notEqual(cacheKeyFor(input, { format: "jpeg", quality: 81 }), key);
+    assert.notEqual(cacheKeyFor(input, { format: "jpeg", quality: 80, responsive: { widths: [320], formats: ["jpeg"] } }), key);
+    assert.notEqual(cacheKeyFor(Buffer.from("other bytes"), { format: "jpeg", quality: 80 }), key);
+  });
+
+  it("keeps array order significant", () => {
+    assert.notEqual(
+      cacheKeyFor(input, { sizeFallback: { steps: ["format", "downscale"] } }),
+      cacheKeyFor(input, { sizeFallback: { steps: ["downscale", "format"] } })
+    );
+  });
+
+  it("is a hex SHA-256 digest", () => {
+    assert.match(cacheKeyFor(input, {}), /^[0-9a-f]{64}$/);
+  });
+});
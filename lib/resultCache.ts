@@ -0,0 +1,142 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { processImage } from "./imageProcessor";
+import { ProcessHooks, ProcessOptions, ProcessResult } from "./types";
+
+const DEFAULT_CACHE_MAX_MB = 512;
+
+/** Results are a pure function of input bytes and options, so cached responses never change. */
+export const CACHE_CONTROL_IMMUTABLE = "public, max-age=31536000, immutable";
+
+interface CacheEntry {
+  bytes: number;
+}
+
+interface CacheIndex {
+  // Map iteration order doubles as the LRU order: least recently used first.
+  entries: Map<string, CacheEntry>;
+  totalBytes: number;
+  ready?: Promise<void>;
+}
+
+const cacheDir = () => path.resolve(process.env.CACHE_DIR ?? path.join(process.cwd(), "data", "cache"));
+
+const maxBytes = () => {
+  const value = Number(process.env.CACHE_MAX_MB ?? DEFAULT_CACHE_MAX_MB);
+  return Number.isFinite(value) && value > 0 ? value * 1024 * 1024 : 0;
+};
+
+const globalWithCache = globalThis as typeof globalThis & { __imageResultCache?: CacheIndex };
+const index: CacheIndex = (globalWithCache.__imageResultCache ??= { entries: new Map(), totalBytes: 0 });
+
+const dataPath = (key: string) => path.join(cacheDir(), `${key}.bin`);
+const metaPath = (key: string) => path.join(cacheDir(), `${key}.json`);
+
+// Rebuilds the index from disk once per process, oldest files first, so eviction survives restarts.
+const ensureIndex = () => {
+  index.ready ??= (async () => {
+    await fs.mkdir(cacheDir(), { recursive: true });
+    const names = (await fs.readdir(cacheDir())).filter((name) => name.endsWith(".bin"));
+    const stats = await Promise.all(
+      names.map(async (name) => ({ key: name.slice(0, -4), stat: await fs.stat(path.join(cacheDir(), name)) }))
+    );
+    for (const { key, stat } of stats.sort((a, b) => a.stat.mtimeMs - b.stat.mtimeMs)) {
+      index.entries.set(key, { bytes: stat.size });
+      index.totalBytes += stat.size;
+    }
+  })();
+  return index.ready;
+};
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Hashes the input bytes with the resolved options. presetId is left out: the preset's options
+ * have already been merged in, and those are what determine the output.
+ */
+export const cacheKeyFor = (buffer: Buffer, options: ProcessOptions): string => {
+  const { presetId: _presetId, ...resolved } = options;
+  return createHash("sha256").update(buffer).update("\0").update(stableStringify(resolved)).digest("hex");
+};
+
+const removeEntry = async (key: string) => {
+  const entry = index.entries.get(key);
+  if (!entry) return;
+  index.entries.delete(key);
+  index.totalBytes -= entry.bytes;
+  await Promise.all([fs.rm(dataPath(key), { force: true }), fs.rm(metaPath(key), { force: true })]);
+};
+
+export const getCachedResult = async (key: string): Promise<ProcessResult | undefined> => {
+  if (maxBytes() === 0) return undefined;
+  await ensureIndex();
+  const entry = index.entries.get(key);
+  if (!entry) return undefined;
+
+  try {
+    const [buffer, meta] = await Promise.all([fs.readFile(dataPath(key)), fs.readFile(metaPath(key), "utf8")]);
+    // Move to the most recently used end, in memory and on disk.
+    index.entries.delete(key);
+    index.entries.set(key, entry);
+    const now = new Date();
+    fs.utimes(dataPath(key), now, now).catch(() => undefined);
+    return { buffer, info: JSON.parse(meta) };
+  } catch {
+    // A half-written or externally deleted entry is treated as a miss.
+    await removeEntry(key);
+    return undefined;
+  }
+};
+
+export const storeCachedResult = async (key: string, result: ProcessResult): Promise<void> => {
+  const limit = maxBytes();
+  if (limit === 0 || result.buffer.length > limit) return;
+  await ensureIndex();
+
+  // Write-then-rename so readers never see a partial file. Identical concurrent misses write the
+  // same bytes, so whichever rename lands last is fine.
+  const temp = `${dataPath(key)}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(metaPath(key), JSON.stringify(result.info));
+  await fs.writeFile(temp, result.buffer);
+  await fs.rename(temp, dataPath(key));
+
+  const previous = index.entries.get(key);
+  if (previous) {
+    index.entries.delete(key);
+    index.totalBytes -= previous.bytes;
+  }
+  index.entries.set(key, { bytes: result.buffer.length });
+  index.totalBytes += result.buffer.length;
+
+  for (const oldest of index.entries.keys()) {
+    if (index.totalBytes <= limit) break;
+    await removeEntry(oldest);
+  }
+};
+
+/** processImage behind the cache; `hit` tells whether the pipeline was skipped. */
+export const processImageCached = async (
+  buffer: Buffer,
+  options: ProcessOptions,
+  hooks: ProcessHooks = {},
+  key = cacheKeyFor(buffer, options)
+): Promise<{ result: ProcessResult; key: string; hit: boolean }> => {
+  const cached = await getCachedResult(key);
+  if (cached) {
+    return { result: cached, key, hit: true };
+  }
+
+  const result = await processImage(buffer, options, hooks);
+  storeCachedResult(key, result).catch((cacheError) => console.error("Result cache write failed:", cacheError));
+  return { result, key, hit: false };
+};
@@ -0,0 +1,48 @@
+import sharp from "sharp";
+import { optimize } from "svgo";
+import { ProcessOptions, ProcessResult } from "./types";
+
+const DEFAULT_DENSITY = 72; // librsvg renders one user unit per pixel at 72 DPI
+const MAX_AUTO_DENSITY = 2400;
+const DEFAULT_PRECISION = 3;
+
+// Options that only make sense for pixels; SVG output is optimized as vectors and would silently ignore them.
+const RASTER_ONLY_OPTIONS: (keyof ProcessOptions)[] = [
+  "width",
+  "height",
+  "crop",
+  "flipHorizontal",
+  "flipVertical",
+  "rotate",
+  "watermark",
+];
+
+export const rasterOnlyOptionsIn = (options: ProcessOptions): string[] =>
+  RASTER_ONLY_OPTIONS.filter((key) => options[key] !== undefined && options[key] !== false && options[key] !== 0);
+
+/**
+ * Picks the density so the rendered SVG is at least as large as the requested output, keeping
+ * icons sharp instead of upscaling a 24px rasterization.
+ */
+const resolveDensity = (metadata: sharp.Metadata, options: ProcessOptions): number => {
+  if (options.svg?.density) return options.svg.density;
+  const scaleX = options.width && metadata.width ? options.width / metadata.width : 1;
+  const scaleY = options.height && metadata.height ? options.height / metadata.height : 1;
+  return Math.min(MAX_AUTO_DENSITY, DEFAULT_DENSITY * Math.max(1, scaleX, scaleY));
+};
+
+/** Renders an SVG source to a lossless PNG intermediate at the resolved density. */
+export const rasterizeSvg = async (buffer: Buffer, metadata: sharp.Metadata, options: ProcessOptions): Promise<Buffer> =>
+  sharp(buffer, { density: resolveDensity(metadata, options) }).png({ compressionLevel: 0 }).toBuffer();
+
+/** Strips editor metadata, collapses groups, rounds coordinates and minifies. */
+export const optimizeSvg = async (buffer: Buffer, options: ProcessOptions): Promise<ProcessResult> => {
+  const { data } = optimize(buffer.toString("utf8"), {
+    multipass: true,
+    floatPrecision: options.svg?.precision ?? DEFAULT_PRECISION,
+    plugins: ["preset-default"],
+  });
+  const output = Buffer.from(data, "utf8");
+  const metadata = await sharp(output).metadata();
+  return { buffer: output, info: { format: "svg", size: output.length, width: metadata.width, height: metadata.height } };
+};
@@ -1,14 +1,234 @@
 export type SupportedFormat = "jpeg" | "png" | "webp" | "gif" | "avif" | "tiff" | "svg";
 
+// "auto" encodes several candidate formats at equivalent quality and keeps the smallest.
+export type OutputFormat = SupportedFormat | "auto";
+
+export type FitMode = "cover" | "contain" | "inside" | "outside" | "fill";
+
+// Anchors accepted by sharp, plus the "entropy"/"attention" smart-crop strategies (cover only).
+export type ResizePosition =
+  | "centre"
+  | "top"
+  | "right top"
+  | "right"
+  | "right bottom"
+  | "bottom"
+  | "left bottom"
+  | "left"
+  | "left top"
+  | "entropy"
+  | "attention";
+
 export interface ProcessOptions {
-  format?: SupportedFormat;
-  quality?: number; // 1 - 100
+  format?: OutputFormat;
+  quality?: number; // 10 - 100
   targetSizeKB?: number;
+  targetQualityScore?: number; // minimum SSIM (0 - 1) against the source
+  sizeFallback?: SizeFallbackOptions; // makes targetSizeKB a hard limit
   width?: number;
   height?: number;
   keepAspectRatio?: boolean;
-  stripMetadata?: boolean;
+  fit?: FitMode; // overrides keepAspectRatio when set
+  position?: ResizePosition; // crop anchor or smart-crop strategy for fit "cover"
+  stripMetadata?: boolean; // shorthand for metadata.keep "none" (true) or "all" (false)
+  metadata?: MetadataOptions; // takes precedence over stripMetadata
   presetId?: string;
+  responsive?: ResponsiveOptions;
+  autoOrient?: boolean; // rotate according to EXIF orientation, default true
+  crop?: CropRect; // applied after auto-orient, before resizing
+  flipHorizontal?: boolean;
+  flipVertical?: boolean;
+  rotate?: number; // degrees clockwise, any angle; applied after crop and flips
+  background?: string; // fill colour (hex or "transparent") for rotation corners and "contain" padding
+  watermark?: WatermarkOptions;
+  animation?: AnimationOptions;
+  svg?: SvgOptions;
+  palette?: PaletteOptions;
+  lossless?: LosslessOptions; // an empty object turns lossless encoding on
+  encoder?: EncoderOptions; // advanced per-format encoder settings
+  colour?: ColourOptions; // colour space, ICC profile and bit depth of the output
+}
+
+/**
+ * Palette settings for PNG and GIF. `quality` sets how many of the allowed colours are used: for
+ * PNG it is the quantizer's target, for GIF it scales the palette directly. That is what the
+ * target-size search varies.
+ */
+export interface PaletteOptions {
+  quantize?: boolean; // PNG only; false writes lossless truecolour. Default true
+  colours?: number; // largest palette, 2 - 256; PNG rounds up to 2, 4, 16 or 256. Default 256
+  dither?: number; // error-diffusion strength, 0 (none) - 1 (full). Default 1
+  alphaAware?: boolean; // default true: transparency gets palette entries; false flattens onto the background first
+}
+
+/**
+ * Lossless output for WebP, AVIF, PNG and TIFF. JPEG and GIF have no lossless mode and are encoded
+ * at `quality` as usual; the result's `lossless.mode` says which happened.
+ */
+export interface LosslessOptions {
+  nearLossless?: boolean; // WebP only: `quality` becomes the preprocessing strength. Smaller, not exact
+  compression?: TiffCompression; // TIFF only. Default "deflate"
+  verify?: boolean; // decode the output and compare it with the pixels that were encoded
+}
+
+export type TiffCompression = "deflate" | "zstd";
+
+export interface LosslessResult {
+  mode: "lossless" | "near-lossless" | "lossy";
+  verification?: {
+    identical: boolean;
+    differingPixels: number; // pixels with any channel changed; RGB under full transparency is ignored
+    maxDifference: number; // largest channel difference, 0 - 255
+  };
+}
+
+/**
+ * Colour management. Without it, output is converted to sRGB and carries no profile unless the
+ * metadata retention keeps the source's. With it, `space` defaults to "srgb" and the profile for
+ * the chosen space is embedded. GIF cannot carry a profile, so it always gets sRGB (or grayscale).
+ */
+export interface ColourOptions {
+  space?: ColourSpace;
+  embedProfile?: boolean; // default true; P3 and kept profiles are always embedded, since untagged pixels read as sRGB
+  keepBitDepth?: boolean; // keep 16-bit sources at 16 bits in TIFF, and in PNG when lossless or not quantized
+}
+
+// "keep" leaves pixels in the source's space with its profile; CMYK stays CMYK for JPEG and TIFF.
+export type ColourSpace = "srgb" | "p3" | "keep" | "grayscale";
+
+/**
+ * Per-format encoder settings; only the block for the output format is read, and anything left
+ * out keeps the default noted. `lossless` and the size fallback override these where they clash.
+ */
+export interface EncoderOptions {
+  jpeg?: JpegEncoderOptions;
+  webp?: WebpEncoderOptions;
+  avif?: AvifEncoderOptions;
+  tiff?: TiffEncoderOptions;
+}
+
+export type ChromaSubsampling = "4:2:0" | "4:4:4";
+
+// Defaults are mozjpeg's: everything on, quantisation table 3.
+export interface JpegEncoderOptions {
+  chromaSubsampling?: ChromaSubsampling; // default 4:2:0
+  progressive?: boolean; // interlaced scans, default true
+  optimiseScans?: boolean; // progressive scan layout tuned per image, default true; needs progressive
+  trellisQuantisation?: boolean; // default true
+  overshootDeringing?: boolean; // default true
+  quantisationTable?: number; // 0 - 8, default 3
+}
+
+export interface WebpEncoderOptions {
+  effort?: number; // 0 - 6, default 6
+  alphaQuality?: number; // 0 - 100, default 100
+  smartSubsample?: boolean; // sharper colour edges for a few more bytes, default false
+}
+
+export interface AvifEncoderOptions {
+  effort?: number; // 0 - 9, default 6
+  bitdepth?: number; // 8, 10 or 12, default 8
+  chromaSubsampling?: ChromaSubsampling; // default 4:4:4
+}
+
+export type TiffEncoderCompression = "lzw" | "deflate" | "zstd" | "packbits" | "jpeg" | "none";
+
+export type TiffPredictor = "horizontal" | "float" | "none";
+
+export interface TiffEncoderOptions {
+  compression?: TiffEncoderCompression; // default lzw; only jpeg uses quality
+  predictor?: TiffPredictor; // default horizontal
+  tile?: boolean; // tiled rather than striped layout, default false
+  tileSize?: number; // 16 - 1024 in steps of 16, default 256
+}
+
+export type SizeFallbackStep = "subsample" | "effort" | "format" | "downscale";
+
+/**
+ * What to try, in order, when the lowest quality still exceeds targetSizeKB. Steps accumulate,
+ * and processing fails if the limit is still missed after the last one.
+ */
+export interface SizeFallbackOptions {
+  steps?: SizeFallbackStep[]; // default: subsample, effort, format, downscale
+  minScale?: number; // smallest fraction of the output dimensions "downscale" may go to, default 0.5
+}
+
+export interface AppliedFallback {
+  step: SizeFallbackStep;
+  detail: string; // e.g. "AVIF chroma subsampling 4:2:0", "1200×800px"
+  size: number; // best output size after this step
+}
+
+export interface SvgOptions {
+  density?: number; // DPI for rasterizing SVG sources; by default just enough for the requested size
+  precision?: number; // decimal places kept in coordinates when optimizing SVG output, default 3
+}
+
+/**
+ * Frame controls for animated inputs, applied before any other processing. Frames dropped by
+ * keepEvery, maxFps or maxFrames hand their delay to the previous kept frame, so the total
+ * duration is unchanged unless delay is set.
+ */
+export interface AnimationOptions {
+  frame?: number; // export this frame (0-based) as a still instead of the animation
+  keepEvery?: number; // keep every nth frame
+  maxFps?: number;
+  maxFrames?: number;
+  loop?: number; // 0 = forever
+  delay?: number; // milliseconds, applied to every frame
+}
+
+/**
+ * What survives from the source: nothing, only the ICC profile, a privacy-safe subset (ICC plus
+ * descriptive EXIF such as copyright, author, camera model and dates; no GPS, serial numbers,
+ * IPTC or XMP) or everything.
+ */
+export type MetadataRetention = "none" | "icc" | "safe" | "all";
+
+// The text fields are written into EXIF on top of whatever is kept; for TIFF, into XMP.
+export interface MetadataOptions {
+  keep?: MetadataRetention;
+  copyright?: string;
+  artist?: string;
+  description?: string;
+}
+
+export type WatermarkAnchor =
+  | "top-left"
+  | "top"
+  | "top-right"
+  | "left"
+  | "center"
+  | "right"
+  | "bottom-left"
+  | "bottom"
+  | "bottom-right";
+
+// Exactly one of text or image must be set. Sizes are percentages of the output width.
+export interface WatermarkOptions {
+  text?: string;
+  image?: string; // base64 or data URL of a logo; the routes fill this from an uploaded "watermark" file
+  fontSize?: number;
+  color?: string;
+  scale?: number; // logo width
+  opacity?: number; // 0 - 1
+  anchor?: WatermarkAnchor;
+  margin?: number;
+  tile?: boolean;
+}
+
+export interface CropRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  unit?: "px" | "percent"; // defaults to px
+}
+
+export interface ResponsiveOptions {
+  widths: number[];
+  formats: SupportedFormat[];
+  sizes?: string; // value for the srcset "sizes" attribute, defaults to 100vw
 }
 
 export interface Preset {
@@ -16,6 +236,13 @@ export interface Preset {
   name: string;
   description: string;
   options: ProcessOptions;
+  custom?: boolean; // true for user-defined presets from the preset store
+}
+
+export interface PresetBundle {
+  version: 1;
+  exportedAt: string;
+  presets: Preset[];
 }
 
 export interface ProcessResult {
@@ -25,5 +252,147 @@ export interface ProcessResult {
     size: number;
     width?: number;
     height?: number;
+    qualityScore?: number; // SSIM reached, when targetQualityScore was requested
+    candidates?: FormatCandidate[]; // every format tried by "auto", winner included
+    quality?: number; // encoder quality of this output
+    search?: SearchStep[]; // every render in order, including other formats tried by "auto"
+    timings?: { prepareMs: number; encodeMs: number };
+    fallback?: AppliedFallback[]; // size fallback steps taken, in order
+    lossless?: LosslessResult; // when lossless output was requested
+  };
+}
+
+export interface SearchStep {
+  format: SupportedFormat;
+  quality: number;
+  size: number;
+  qualityScore?: number; // only when the step was scored
+}
+
+/** Opt-in account of how a single output was produced; see buildProcessReport. */
+export interface ProcessReport {
+  options: ProcessOptions; // after preset merge, with an uploaded watermark summarised
+  format: string;
+  quality?: number;
+  width?: number;
+  height?: number;
+  inputBytes: number;
+  outputBytes: number;
+  compressionRatio: number; // input bytes per output byte
+  qualityScore?: number;
+  target?: { sizeKB?: number; qualityScore?: number; met: boolean };
+  search: SearchStep[];
+  candidates?: FormatCandidate[];
+  fallback?: AppliedFallback[];
+  lossless?: LosslessResult;
+  // prepare/encode describe the run that produced the output, which may predate a cache hit.
+  timings: { prepareMs?: number; encodeMs?: number; totalMs: number };
+  cache?: "HIT" | "MISS";
+}
+
+export interface FormatCandidate {
+  format: SupportedFormat;
+  size: number;
+  qualityScore?: number;
+}
+
+export interface ProcessProgress {
+  stage: "preparing" | "encoding" | "searching" | "fallback" | "verifying" | "variants";
+  iteration?: number; // renders (or responsive variants) finished so far
+  maxIterations?: number; // upper bound for the current stage
+  format?: SupportedFormat; // format being encoded; "auto" tries several in turn
+}
+
+/** Optional observers for long-running work; the signal is checked between renders. */
+export interface ProcessHooks {
+  onProgress?: (progress: ProcessProgress) => void;
+  signal?: AbortSignal;
+}
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export interface JobSnapshot {
+  id: string;
+  status: JobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  expiresAt?: string; // results are deleted after this
+  progress?: ProcessProgress;
+  error?: string;
+  result?: {
+    format: string;
+    size: number;
+    width?: number;
+    height?: number;
+    qualityScore?: number;
+    candidates?: FormatCandidate[];
+    lossless?: LosslessResult;
+    archive: boolean; // responsive sets produce a ZIP
+    report?: ProcessReport; // single-image jobs only
+  };
+}
+
+export type MetadataFields = Record<string, unknown>;
+
+export interface ImageInspection {
+  format?: string;
+  size: number;
+  width?: number;
+  height?: number; // per frame for animated images
+  space?: string; // colour space, e.g. srgb, cmyk, b-w
+  channels?: number;
+  bitDepth?: number;
+  hasAlpha: boolean;
+  iccProfileName?: string;
+  orientation?: number;
+  density?: number;
+  isProgressive?: boolean;
+  chromaSubsampling?: string;
+  pages: number;
+  frameDelays?: number[]; // milliseconds per frame
+  loop?: number; // 0 = forever
+  exif?: MetadataFields;
+  gps?: MetadataFields;
+  iptc?: MetadataFields;
+  xmp?: MetadataFields | string;
+  icc?: MetadataFields;
+}
+
+export interface ResponsiveVariant {
+  file: string;
+  width: number;
+  height: number;
+  bytes: number;
+  format: SupportedFormat;
+}
+
+export interface ResponsiveSetResult {
+  variants: (ResponsiveVariant & { buffer: Buffer })[];
+  manifest: ResponsiveVariant[];
+  html: string;
+}
+
+export interface BatchManifestEntry {
+  source: string;
+  output?: string;
+  status: "ok" | "error";
+  originalSize: number;
+  outputSize?: number;
+  width?: number;
+  height?: number;
+  format?: string;
+  error?: string;
+}
+
+export interface BatchManifest {
+  createdAt: string;
+  totals: {
+    files: number;
+    succeeded: number;
+    failed: number;
+    originalBytes: number;
+    outputBytes: number;
   };
+  entries: BatchManifestEntry[];
 }
@@ -0,0 +1,91 @@
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+import { describeAllowed, ObjectSchema, validate, ValidationError } from "./validation";
+
+const schema = {
+  type: "object",
+  fields: {
+    size: { type: "number", min: 1, max: 100, integer: true },
+    ratio: { type: "number", min: 0, max: 1 },
+    angle: { type: "number", min: 0, max: 360, step: 90 },
+    enabled: { type: "boolean" },
+    label: { type: "string", maxLength: 5, pattern: /^[a-z]+$/ },
+    mode: { type: "enum", values: ["fast", "slow"] },
+    widths: { type: "array", items: { type: "number", min: 1, max: 10, integer: true }, minItems: 1, maxItems: 3 },
+    nested: { type: "object", fields: { name: { type: "string", maxLength: 10 } }, required: ["name"] },
+  },
+} satisfies ObjectSchema;
+
+// Runs validate and returns the field errors it threw, so tests can compare them directly.
+const errorsOf = (input: unknown) => {
+  try {
+    validate(schema, input);
+  } catch (error) {
+    assert.ok(error instanceof ValidationError);
+    return error.errors.map(({ field, reason }) => ({ field, reason }));
+  }
+  assert.fail("expected a ValidationError");
+};
+
+describe("validate", () => {
+  it("treats null, undefined and empty strings as unset", () => {
+    assert.deepEqual(validate(schema, { size: null, ratio: undefined, label: "" }), {});
+  });
+
+  it("coerces form strings to numbers and booleans", () => {
+    assert.deepEqual(validate(schema, { size: "12", ratio: "0.5", enabled: "true" }), { size: 12, ratio: 0.5, enabled: true });
+    assert.deepEqual(validate(schema, { enabled: "0" }), { enabled: false });
+  });
+
+  it("rounds integers and lower-cases enums", () => {
+    assert.deepEqual(validate(schema, { size: 4.6, mode: "FAST" }), { size: 5, mode: "fast" });
+  });
+
+  it("reports unknown keys instead of dropping them", () => {
+    assert.deepEqual(errorsOf({ size: 3, colour: "red" }), [{ field: "colour", reason: "is not a known option" }]);
+  });
+
+  it("rejects values outside the range, after rounding", () => {
+    assert.deepEqual(errorsOf({ size: 0 }), [{ field: "size", reason: "is out of range" }]);
+    assert.deepEqual(validate(schema, { size: 100.4 }), { size: 100 });
+  });
+
+  it("only accepts steps counted from the minimum", () => {
+    assert.deepEqual(validate(schema, { angle: 270 }), { angle: 270 });
+    assert.deepEqual(errorsOf({ angle: 45 }), [{ field: "angle", reason: "is not an allowed step" }]);
+  });
+
+  it("reports every bad field with its path", () => {
+    assert.deepEqual(errorsOf({ ratio: "high", label: "toolong", widths: [2, 20], nested: {} }), [
+      { field: "ratio", reason: "must be a number" },
+      { field: "label", reason: "is too long" },
+      { field: "widths[1]", reason: "is out of range" },
+      { field: "nested.name", reason: "is required" },
+    ]);
+  });
+
+  it("checks string patterns and array lengths", () => {
+    assert.deepEqual(errorsOf({ label: "AB" }), [{ field: "label", reason: "has an invalid format" }]);
+    assert.deepEqual(errorsOf({ widths: [] }), [{ field: "widths", reason: "has the wrong number of items" }]);
+  });
+
+  it("rejects a non-object root", () => {
+    assert.deepEqual(errorsOf([1, 2]), [{ field: "(root)", reason: "must be an object" }]);
+  });
+
+  it("prefixes field paths with the given path", () => {
+    assert.throws(
+      () => validate(schema, { size: -1 }, "options"),
+      (error: unknown) => error instanceof ValidationError && error.errors[0].field === "options.size"
+    );
+  });
+});
+
+describe("describeAllowed", () => {
+  it("describes each field type", () => {
+    assert.equal(describeAllowed(schema.fields.size), "integer 1 to 100");
+    assert.equal(describeAllowed(schema.fields.angle), "number 0 to 360 in steps of 90");
+    assert.equal(describeAllowed(schema.fields.mode), "fast | slow");
+    assert.equal(describeAllowed(schema.fields.widths), "1 to 3 items of integer 1 to 10");
+  });
+});
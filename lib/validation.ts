@@ -0,0 +1,141 @@
+// Small declarative validator shared by the API routes and the UI. Must stay free of Node imports.
+
+export type FieldSchema =
+  | { type: "number"; min: number; max: number; integer?: boolean; step?: number } // step counts from min
+  | { type: "boolean" }
+  | { type: "string"; maxLength: number; pattern?: RegExp }
+  | { type: "enum"; values: readonly string[] }
+  | { type: "array"; items: FieldSchema; minItems?: number; maxItems: number }
+  | ObjectSchema;
+
+export interface ObjectSchema {
+  type: "object";
+  fields: Record<string, FieldSchema>;
+  required?: string[];
+}
+
+export interface FieldError {
+  field: string;
+  reason: string;
+  allowed?: string;
+}
+
+export class ValidationError extends Error {
+  constructor(public readonly errors: FieldError[], message = "Invalid options") {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
+
+/** Human-readable description of the values a field accepts, as reported in errors. */
+export const describeAllowed = (schema: FieldSchema): string => {
+  switch (schema.type) {
+    case "number":
+      return `${schema.integer ? "integer" : "number"} ${schema.min} to ${schema.max}${schema.step ? ` in steps of ${schema.step}` : ""}`;
+    case "boolean":
+      return "true or false";
+    case "string":
+      return `string up to ${schema.maxLength} characters`;
+    case "enum":
+      return schema.values.join(" | ");
+    case "array":
+      return `${schema.minItems ?? 0} to ${schema.maxItems} items of ${describeAllowed(schema.items)}`;
+    case "object":
+      return "object";
+  }
+};
+
+const joinPath = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+// Returns the coerced value, or undefined after recording an error.
+const validateField = (schema: FieldSchema, input: unknown, path: string, errors: FieldError[]): unknown => {
+  const fail = (reason: string) => {
+    errors.push({ field: path, reason, allowed: describeAllowed(schema) });
+    return undefined;
+  };
+
+  switch (schema.type) {
+    case "number": {
+      const value = typeof input === "string" && input.trim() !== "" ? Number(input) : input;
+      if (typeof value !== "number" || !Number.isFinite(value)) return fail("must be a number");
+      const coerced = schema.integer ? Math.round(value) : value;
+      if (coerced < schema.min || coerced > schema.max) return fail("is out of range");
+      if (schema.step && (coerced - schema.min) % schema.step !== 0) return fail("is not an allowed step");
+      return coerced;
+    }
+    case "boolean": {
+      if (typeof input === "boolean") return input;
+      if (input === "true" || input === "1" || input === 1) return true;
+      if (input === "false" || input === "0" || input === 0) return false;
+      return fail("must be a boolean");
+    }
+    case "string": {
+      if (typeof input !== "string") return fail("must be a string");
+      if (input.length > schema.maxLength) return fail("is too long");
+      if (schema.pattern && !schema.pattern.test(input)) return fail("has an invalid format");
+      return input;
+    }
+    case "enum": {
+      const value = typeof input === "string" ? input.toLowerCase() : input;
+      if (typeof value !== "string" || !schema.values.includes(value)) return fail("is not a supported value");
+      return value;
+    }
+    case "array": {
+      if (!Array.isArray(input)) return fail("must be an array");
+      if (input.length < (schema.minItems ?? 0) || input.length > schema.maxItems) {
+        return fail("has the wrong number of items");
+      }
+      const before = errors.length;
+      const items = input.map((item, index) => validateField(schema.items, item, joinPath(path, index), errors));
+      return errors.length === before ? items : undefined;
+    }
+    case "object":
+      return validateObject(schema, input, path, errors);
+  }
+};
+
+const validateObject = (
+  schema: ObjectSchema,
+  input: unknown,
+  path: string,
+  errors: FieldError[]
+): Record<string, unknown> | undefined => {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    errors.push({ field: path || "(root)", reason: "must be an object", allowed: "object" });
+    return undefined;
+  }
+
+  const output: Record<string, unknown> = {};
+  for (const [key, raw] of Object.entries(input as Record<string, unknown>)) {
+    const fieldPath = joinPath(path, key);
+    const fieldSchema = schema.fields[key];
+    if (!fieldSchema) {
+      errors.push({ field: fieldPath, reason: "is not a known option" });
+      continue;
+    }
+    // null and empty strings mean "not set", which is how HTML forms and JSON clients express it.
+    if (raw === null || raw === undefined || raw === "") continue;
+    const value = validateField(fieldSchema, raw, fieldPath, errors);
+    if (value !== undefined) output[key] = value;
+  }
+
+  for (const key of schema.required ?? []) {
+    const value = (input as Record<string, unknown>)[key];
+    if (value === undefined || value === null || value === "") {
+      errors.push({ field: joinPath(path, key), reason: "is required", allowed: describeAllowed(schema.fields[key]) });
+    }
+  }
+
+  return output;
+};
+
+/** Validates and coerces `input`; throws ValidationError listing every bad field. */
+export const validate = <T>(schema: ObjectSchema, input: unknown, path = ""): T => {
+  const errors: FieldError[] = [];
+  const value = validateObject(schema, input, path, errors);
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+  return value as T;
+};
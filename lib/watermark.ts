@@ -0,0 +1,92 @@
+import sharp from "sharp";
+import { WatermarkAnchor, WatermarkOptions } from "./types";
+
+const DEFAULT_FONT_SIZE = 5; // percent of output width
+const DEFAULT_LOGO_SCALE = 20; // percent of output width
+const DEFAULT_MARGIN = 2; // percent of output width
+const DEFAULT_OPACITY = 0.5;
+const TRANSPARENT = { r: 0, g: 0, b: 0, alpha: 0 };
+
+const GRAVITY: Record<WatermarkAnchor, string> = {
+  "top-left": "northwest",
+  top: "north",
+  "top-right": "northeast",
+  left: "west",
+  center: "centre",
+  right: "east",
+  "bottom-left": "southwest",
+  bottom: "south",
+  "bottom-right": "southeast",
+};
+
+const escapeMarkup = (value: string) => value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+export const decodeWatermarkImage = (image: string): Buffer =>
+  Buffer.from(image.replace(/^data:[^;]+;base64,/, ""), "base64");
+
+const renderMark = (watermark: WatermarkOptions, width: number, maxWidth: number): Promise<Buffer> => {
+  if (watermark.text) {
+    const color = watermark.color ?? "#ffffff";
+    return sharp({
+      text: {
+        text: `<span foreground="${color}">${escapeMarkup(watermark.text)}</span>`,
+        font: "sans bold",
+        width: maxWidth,
+        height: Math.max(8, Math.round((width * (watermark.fontSize ?? DEFAULT_FONT_SIZE)) / 100)),
+        rgba: true,
+      },
+    })
+      .png()
+      .toBuffer();
+  }
+
+  return sharp(decodeWatermarkImage(watermark.image as string))
+    .resize({
+      width: Math.min(maxWidth, Math.max(1, Math.round((width * (watermark.scale ?? DEFAULT_LOGO_SCALE)) / 100))),
+      fit: "inside",
+    })
+    .ensureAlpha()
+    .png()
+    .toBuffer();
+};
+
+/**
+ * Renders the watermark onto a transparent canvas of the output size. Sizes and margins are
+ * relative to the output width so the mark looks the same whatever the resize.
+ */
+export const buildWatermarkOverlay = async (
+  watermark: WatermarkOptions,
+  width: number,
+  height: number
+): Promise<Buffer> => {
+  const margin = Math.round((width * (watermark.margin ?? DEFAULT_MARGIN)) / 100);
+  const mark = await renderMark(watermark, width, Math.max(1, width - margin * 2));
+
+  // dest-in keeps the mark's shape and scales its alpha by the requested opacity.
+  const alpha = Math.round(255 * Math.min(Math.max(watermark.opacity ?? DEFAULT_OPACITY, 0), 1));
+  const faded = await sharp(mark)
+    .composite([{ input: Buffer.from([255, 255, 255, alpha]), raw: { width: 1, height: 1, channels: 4 }, tile: true, blend: "dest-in" }])
+    .extend({ top: margin, bottom: margin, left: margin, right: margin, background: TRANSPARENT })
+    .png()
+    .toBuffer();
+
+  // Very small outputs can be narrower than the padded mark; shrink it rather than fail.
+  const fitted = await sharp(faded).resize({ width, height, fit: "inside", withoutEnlargement: true }).png().toBuffer();
+
+  return sharp({ create: { width, height, channels: 4, background: TRANSPARENT } })
+    .composite([
+      watermark.tile
+        ? { input: fitted, tile: true }
+        : { input: fitted, gravity: GRAVITY[watermark.anchor ?? "bottom-right"] },
+    ])
+    .png()
+    .toBuffer();
+};
+
+/** Merges an uploaded logo file into raw (not yet validated) options as the watermark image. */
+export const attachWatermarkUpload = async (rawOptions: unknown, file: File): Promise<unknown> => {
+  const options = (rawOptions && typeof rawOptions === "object" ? rawOptions : {}) as Record<string, unknown>;
+  const watermark = (options.watermark && typeof options.watermark === "object" ? options.watermark : {}) as object;
+  const image = `data:${file.type || "application/octet-stream"};base64,${Buffer.from(await file.arrayBuffer()).toString("base64")}`;
+  return { ...options, watermark: { ...watermark, image } };
+};